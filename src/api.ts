@@ -1,13 +1,55 @@
 import axios, { AxiosInstance } from 'axios';
-import { config } from './config.js';
+import { config, DEFAULT_PROFILE, ResolvedProfile } from './config.js';
+import { APIError, ConfigError } from './errors.js';
+import {
+  RetryInfo,
+  describeRetryReason,
+  getBackoffDelay,
+  getServerRetryDelay,
+  isRetryableError,
+  sleep
+} from './retry.js';
+import { SSEDecoder, SSEEvent } from './sse.js';
+import { StreamAccumulator } from './stream-accumulator.js';
+
+export interface AlternativeReply {
+  content: string;
+  model?: string;
+}
+
+/**
+ * Local bookkeeping kept alongside a message in the session file. It is
+ * stripped before messages are sent to the API.
+ */
+export interface MessageMetadata {
+  model?: string;
+  timestamp?: string;
+  // Sampling settings of the request that produced this message
+  temperature?: number;
+  maxTokens?: number;
+  // Tokens used by the request that produced this message
+  usage?: Usage;
+  // Tokens used by the conversation so far, including this message
+  totalUsage?: Usage;
+  // The reply was interrupted before the model finished
+  truncated?: boolean;
+  // Other replies to the same message from /retry or /n
+  alternatives?: AlternativeReply[];
+}
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
   tool_calls?: any[];
   tool_call_id?: string;
+  metadata?: MessageMetadata;
 }
 
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: object; strict?: boolean } };
+
 export interface ChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
@@ -15,8 +57,16 @@ export interface ChatCompletionRequest {
   temperature?: number;
   top_p?: number;
   stream?: boolean;
+  stream_options?: { include_usage?: boolean };
   tools?: any[];
   tool_choice?: 'auto' | 'none' | { type: 'function'; function: { name: string } };
+  response_format?: ResponseFormat;
+}
+
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
 }
 
 export interface ChatCompletionResponse {
@@ -29,13 +79,37 @@ export interface ChatCompletionResponse {
     message: ChatMessage;
     finish_reason: string;
   }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
+  // Streams only report usage when the server sends a final usage chunk
+  usage?: Usage;
+}
+
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
   };
 }
 
+export interface ChatCompletionChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+      tool_calls?: ToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: Usage | null;
+}
+
 export interface Model {
   id: string;
   object: string;
@@ -43,97 +117,235 @@ export interface Model {
   owned_by: string;
 }
 
+export interface RequestOptions {
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal;
+}
+
+export function isCancellation(error: unknown): boolean {
+  return axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError');
+}
+
+export interface CerebrasAPIOptions {
+  apiKey?: string;
+  // Provider profile name; defaults to the active profile
+  profile?: string;
+}
+
 export class CerebrasAPI {
   private client: AxiosInstance;
-  private baseURL = 'https://api.cerebras.ai/v1';
+  readonly profile: ResolvedProfile;
 
-  constructor(apiKey?: string) {
-    const key = apiKey || config.get('apiKey');
-    if (!key) {
-      throw new Error('API key not found. Please set it using "cere config --api-key YOUR_KEY"');
+  constructor(options: CerebrasAPIOptions = {}) {
+    this.profile = config.getProfile(options.profile);
+    const key = options.apiKey || this.profile.apiKey;
+
+    // Custom profiles may point at gateways that do not need a key
+    if (!key && this.profile.name === DEFAULT_PROFILE) {
+      throw new ConfigError('API key not found. Please set it using "cere config --api-key YOUR_KEY"');
     }
 
     this.client = axios.create({
-      baseURL: this.baseURL,
+      baseURL: this.profile.baseURL,
       headers: {
-        'Authorization': `Bearer ${key}`,
-        'Content-Type': 'application/json'
+        ...(key && { 'Authorization': `Bearer ${key}` }),
+        'Content-Type': 'application/json',
+        ...this.profile.headers
       }
     });
   }
 
-  async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
-    try {
-      const response = await this.client.post('/chat/completions', request);
+  async chatCompletion(
+    request: ChatCompletionRequest,
+    options: RequestOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    return this.withRetry(async () => {
+      const response = await this.client.post('/chat/completions', this.prepareRequest(request), {
+        signal: options.signal
+      });
       return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(`API Error: ${error.response.data.error?.message || error.response.statusText}`);
-      }
-      throw error;
-    }
+    }, options);
   }
 
+  /**
+   * Stream a chat completion, forwarding content deltas to `onChunk` as they
+   * arrive. Resolves with the reassembled response, including any tool calls,
+   * the finish reason and usage.
+   *
+   * Failed streams are only retried while no content has been forwarded.
+   */
   async streamChatCompletion(
     request: ChatCompletionRequest,
-    onChunk: (chunk: string) => void
-  ): Promise<void> {
-    try {
+    onChunk: (chunk: string) => void,
+    options: RequestOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    let emitted = false;
+
+    return this.withRetry(async () => {
       const response = await this.client.post('/chat/completions', {
-        ...request,
-        stream: true
+        ...this.prepareRequest(request),
+        stream: true,
+        // Ask for a final usage chunk (OpenAI-compatible servers omit it otherwise)
+        stream_options: { include_usage: true }
       }, {
-        responseType: 'stream'
+        responseType: 'stream',
+        signal: options.signal
       });
 
-      let buffer = '';
-      
-      return new Promise((resolve, reject) => {
-        response.data.on('data', (chunk: Buffer) => {
-          buffer += chunk.toString();
-          const lines = buffer.split('\\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.substring(6);
-              if (data === '[DONE]') {
-                resolve();
-                return;
-              }
-              try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content;
-                if (content) {
-                  onChunk(content);
-                }
-              } catch (e) {
-                // Ignore parsing errors for incomplete chunks
-              }
+      return this.readStream(response.data, (chunk) => {
+        emitted = true;
+        onChunk(chunk);
+      }, options.signal);
+    }, options, () => !emitted);
+  }
+
+  async listModels(options: RequestOptions = {}): Promise<Model[]> {
+    return this.withRetry(async () => {
+      const response = await this.client.get('/models', { signal: options.signal });
+      return response.data.data;
+    }, options);
+  }
+
+  private prepareRequest(request: ChatCompletionRequest): ChatCompletionRequest {
+    return {
+      ...request,
+      messages: request.messages.map(({ metadata, ...message }) => message)
+    };
+  }
+
+  private readStream(
+    stream: any,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    const decoder = new SSEDecoder();
+    const accumulator = new StreamAccumulator();
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', abort);
+        resolve(accumulator.toResponse());
+      };
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', abort);
+        stream.destroy();
+        reject(error);
+      };
+
+      const abort = () => fail(new axios.CanceledError('Request cancelled'));
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      signal?.addEventListener('abort', abort, { once: true });
+
+      const handleEvents = (events: SSEEvent[]) => {
+        for (const event of events) {
+          if (settled) return;
+
+          if (event.data === '[DONE]') {
+            finish();
+            return;
+          }
+
+          let payload: any;
+          try {
+            payload = JSON.parse(event.data);
+          } catch (e) {
+            if (event.event === 'error') {
+              fail(new APIError(event.data));
             }
+            // Ignore other malformed events
+            continue;
           }
-        });
 
-        response.data.on('end', () => resolve());
-        response.data.on('error', reject);
+          // Errors can arrive mid-stream after a 200 response
+          if (event.event === 'error' || payload.error) {
+            const message = payload.error?.message || payload.error || payload.message || event.data;
+            fail(new APIError(typeof message === 'string' ? message : JSON.stringify(message)));
+            return;
+          }
+
+          const content = accumulator.push(payload);
+          if (content) {
+            onChunk(content);
+          }
+        }
+      };
+
+      stream.on('data', (chunk: Buffer) => handleEvents(decoder.push(chunk)));
+      stream.on('end', () => {
+        handleEvents(decoder.flush());
+        finish();
       });
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(`API Error: ${error.response.data.error?.message || error.response.statusText}`);
+      stream.on('error', fail);
+    });
+  }
+
+  /**
+   * Run a request, retrying rate limits, server errors and network failures
+   * with jittered exponential backoff. A server-provided delay is honored
+   * unless it exceeds `maxRetryDelay`, in which case we give up right away.
+   */
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    options: RequestOptions,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    const maxAttempts = (config.get('maxRetries') ?? 3) + 1;
+    const maxDelay = config.get('maxRetryDelay') ?? 30000;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error: any) {
+        if (attempt >= maxAttempts || !isRetryableError(error) || !canRetry()) {
+          throw await this.toError(error);
+        }
+
+        const serverDelay = getServerRetryDelay(error.response?.headers);
+        if (serverDelay !== undefined && serverDelay > maxDelay) {
+          throw await this.toError(error);
+        }
+
+        const delay = serverDelay ?? getBackoffDelay(attempt, maxDelay);
+        options.onRetry?.({
+          attempt,
+          maxAttempts,
+          delay,
+          reason: describeRetryReason(error)
+        });
+        await sleep(delay, options.signal);
       }
-      throw error;
     }
   }
 
-  async listModels(): Promise<Model[]> {
-    try {
-      const response = await this.client.get('/models');
-      return response.data.data;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(`API Error: ${error.response.data.error?.message || error.response.statusText}`);
+  private async toError(error: any): Promise<Error> {
+    if (!error.response) {
+      return error;
+    }
+
+    let data = error.response.data;
+    // Streamed requests get their error body as a stream too
+    if (data && typeof data.on === 'function') {
+      try {
+        let body = '';
+        for await (const chunk of data) {
+          body += chunk.toString();
+        }
+        data = JSON.parse(body);
+      } catch (e) {
+        data = undefined;
       }
-      throw error;
     }
+
+    return new APIError(data?.error?.message || error.response.statusText, error.response.status);
   }
 }
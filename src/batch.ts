@@ -0,0 +1,277 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CerebrasAPI,
+  ChatCompletionRequest,
+  ChatMessage,
+  Usage,
+  isCancellation
+} from './api.js';
+import { APIError } from './errors.js';
+import { FileOperations } from './file-operations.js';
+import { expandGlob } from './glob.js';
+import { RetryInfo } from './retry.js';
+import { estimateCost } from './usage.js';
+import { fillTemplate } from './utils.js';
+
+export interface BatchItem {
+  id: string;
+  // Input file the prompt was built from, for --files batches
+  file?: string;
+  request: ChatCompletionRequest;
+}
+
+/**
+ * One line of the output JSONL file.
+ */
+export interface BatchResult {
+  id: string;
+  file?: string;
+  status: 'ok' | 'error';
+  model: string;
+  content?: string;
+  finish_reason?: string;
+  usage?: Usage;
+  cost?: number;
+  error?: string;
+  // HTTP status of a failed request, when the API answered at all
+  http_status?: number;
+  timestamp: string;
+}
+
+export interface BatchDefaults {
+  model: string;
+  system?: string;
+  temperature?: number;
+  max_tokens?: number;
+}
+
+export interface BatchProgress {
+  done: number;
+  failed: number;
+  total: number;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  signal?: AbortSignal;
+  onResult?: (result: BatchResult, progress: BatchProgress) => void;
+  onRetry?: (item: BatchItem, info: RetryInfo) => void;
+}
+
+// Fields a JSONL request line may set
+interface BatchInput {
+  id?: string | number;
+  prompt?: string;
+  messages?: ChatMessage[];
+  system?: string;
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+}
+
+function buildRequest(defaults: BatchDefaults, input: BatchInput, messages: ChatMessage[]): ChatCompletionRequest {
+  const system = input.system ?? defaults.system;
+  const hasSystem = messages.some(message => message.role === 'system');
+
+  return {
+    model: input.model || defaults.model,
+    messages: system && !hasSystem ? [{ role: 'system', content: system }, ...messages] : messages,
+    temperature: input.temperature ?? defaults.temperature,
+    max_tokens: input.max_tokens ?? defaults.max_tokens
+  };
+}
+
+/**
+ * Read requests from a JSONL file. Each line is either a JSON string used as
+ * the prompt, or an object with a "prompt" or "messages" and optional "id",
+ * "system", "model", "temperature" and "max_tokens". Lines without an id are
+ * numbered "line-N".
+ */
+export async function loadJsonlItems(filePath: string, defaults: BatchDefaults): Promise<BatchItem[]> {
+  const lines = (await fs.readFile(filePath, 'utf-8')).split(/\r?\n/);
+  const items: BatchItem[] = [];
+  const ids = new Set<string>();
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${index + 1} of ${filePath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const input: BatchInput = typeof parsed === 'string' ? { prompt: parsed } : parsed as BatchInput;
+    let messages: ChatMessage[];
+    if (Array.isArray(input?.messages)) {
+      messages = input.messages;
+    } else if (typeof input?.prompt === 'string') {
+      messages = [{ role: 'user', content: input.prompt }];
+    } else {
+      throw new Error(`Line ${index + 1} of ${filePath} needs a "prompt" or "messages"`);
+    }
+
+    const id = input.id !== undefined ? String(input.id) : `line-${index + 1}`;
+    if (ids.has(id)) {
+      throw new Error(`Duplicate id "${id}" on line ${index + 1} of ${filePath}`);
+    }
+    ids.add(id);
+
+    items.push({ id, request: buildRequest(defaults, input, messages) });
+  });
+
+  return items;
+}
+
+/**
+ * Build one request per file matching the globs. The template may use
+ * {{content}}, {{file}} and {{name}}; without {{content}} the file is
+ * appended after the prompt. Each item is identified by its file path.
+ */
+export async function loadFileItems(
+  patterns: string[],
+  template: string,
+  defaults: BatchDefaults
+): Promise<BatchItem[]> {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    const matches = await expandGlob(pattern);
+    if (matches.length === 0) {
+      throw new Error(`No files match: ${pattern}`);
+    }
+    matches.forEach(file => files.add(file));
+  }
+
+  const items: BatchItem[] = [];
+  for (const file of files) {
+    const content = await FileOperations.readFile(file);
+    if (!content) continue;
+
+    const prompt = template.includes('{{content}}')
+      ? fillTemplate(template, { content: content.content, file, name: path.basename(file) })
+      : fillTemplate(template, { file, name: path.basename(file) }) + '\n' + FileOperations.formatFileContent(content);
+
+    items.push({
+      id: file,
+      file,
+      request: buildRequest(defaults, {}, [{ role: 'user', content: prompt }])
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Get the output file ready for a run and return the ids that are already
+ * done. Resuming keeps the successful results of the previous run and drops
+ * its failures so they are retried; a fresh run refuses to overwrite results.
+ */
+export async function prepareOutput(outputPath: string, resume: boolean): Promise<Set<string>> {
+  let existing: string;
+  try {
+    existing = await fs.readFile(outputPath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      await fs.writeFile(outputPath, '', 'utf-8');
+      return new Set();
+    }
+    throw error;
+  }
+
+  if (!resume) {
+    throw new Error(`Output file already exists: ${outputPath}. Use --resume to continue it or choose another --output`);
+  }
+
+  const completed = new Map<string, BatchResult>();
+  for (const line of existing.split('\n')) {
+    try {
+      const result: BatchResult = JSON.parse(line);
+      if (result.status === 'ok') completed.set(result.id, result);
+    } catch {
+      // A line cut short by an interrupted run
+    }
+  }
+
+  const lines = Array.from(completed.values()).map(result => JSON.stringify(result) + '\n');
+  await fs.writeFile(outputPath, lines.join(''), 'utf-8');
+  return new Set(completed.keys());
+}
+
+async function runItem(
+  api: CerebrasAPI,
+  item: BatchItem,
+  options: BatchOptions
+): Promise<BatchResult | undefined> {
+  const base = { id: item.id, ...(item.file && { file: item.file }), model: item.request.model };
+
+  try {
+    const response = await api.chatCompletion(item.request, {
+      signal: options.signal,
+      onRetry: (info) => options.onRetry?.(item, info)
+    });
+    const choice = response.choices[0];
+    const model = response.model || item.request.model;
+
+    return {
+      ...base,
+      status: 'ok',
+      model,
+      content: choice?.message.content ?? '',
+      finish_reason: choice?.finish_reason,
+      usage: response.usage,
+      cost: response.usage && estimateCost(model, response.usage),
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    // Interrupted items are left out so that --resume picks them up again
+    if (isCancellation(error)) return undefined;
+
+    return {
+      ...base,
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error),
+      ...(error instanceof APIError && error.status && { http_status: error.status }),
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+/**
+ * Run the items with at most `concurrency` requests in flight, appending
+ * each result to the output file as soon as it arrives. Failed requests are
+ * retried by the API client before they are recorded as errors.
+ */
+export async function runBatch(
+  api: CerebrasAPI,
+  items: BatchItem[],
+  outputPath: string,
+  options: BatchOptions
+): Promise<BatchResult[]> {
+  const queue = [...items];
+  const results: BatchResult[] = [];
+  const progress: BatchProgress = { done: 0, failed: 0, total: items.length };
+  // Results are written one at a time so lines never interleave
+  let writes = Promise.resolve();
+
+  const worker = async () => {
+    while (queue.length > 0 && !options.signal?.aborted) {
+      const item = queue.shift()!;
+      const result = await runItem(api, item, options);
+      if (!result) continue;
+
+      writes = writes.then(() => fs.appendFile(outputPath, JSON.stringify(result) + '\n', 'utf-8'));
+      await writes;
+
+      results.push(result);
+      progress.done++;
+      if (result.status === 'error') progress.failed++;
+      options.onResult?.(result, { ...progress });
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
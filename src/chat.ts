@@ -1,7 +1,19 @@
 import inquirer from 'inquirer';
-import { CerebrasAPI } from './api.js';
-import { ConversationManager } from './conversation.js';
-import { config } from './config.js';
+import path from 'path';
+import { Ora } from 'ora';
+import {
+  AlternativeReply,
+  CerebrasAPI,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  MessageMetadata,
+  Usage,
+  isCancellation
+} from './api.js';
+import { ConversationManager, describeSession, getSessionMessages, printTranscript } from './conversation.js';
+import { config, DEFAULT_PROFILE } from './config.js';
+import { SchemaValidationError } from './errors.js';
 import {
   displayBanner,
   formatMessage,
@@ -13,21 +25,80 @@ import {
   displayWarning,
   copyToClipboard,
   formatTokenUsage,
-  getTheme
+  formatRetryNotice,
+  getTheme,
+  formatTimestamp,
+  truncateString
 } from './utils.js';
-import { FileOperations } from './file-operations.js';
+import { ExportFormat, getExportFormat } from './export.js';
+import { FileContent, FileOperations, SkipReason } from './file-operations.js';
+import { globToRegExp } from './glob.js';
+import { formatUnifiedDiff } from './diff.js';
+import { ToolManager, ToolCall, formatToolsForAPI } from './tools.js';
+import { FileChange } from './workspace.js';
+import { ShellResult, describeShellStatus, formatShellResult, getShellPolicy, runShellCommand } from './shell.js';
+import { estimateTokens, getContextSize } from './tokens.js';
+import { addUsage, estimateMessagesCost, formatCost, printUsageTable, summarizeUsage } from './usage.js';
+import { SearchIndex, SessionHit, parseSearchQuery, printSearchResults } from './search.js';
+import { JSONSchema, StructuredReply, loadSchema, requestStructuredReply, schemaName } from './schema.js';
+import {
+  TemplateManager,
+  askForVariables,
+  parseVariables,
+  printTemplates,
+  renderTemplate,
+  splitTurns,
+  templateFromMessages
+} from './templates.js';
+
+interface ReplyOptions {
+  model?: string;
+  temperature?: number;
+  alternatives?: AlternativeReply[];
+}
 
 export class InteractiveChat {
+  private static readonly MAX_TOOL_ITERATIONS = 5;
+  private static readonly MAX_CANDIDATES = 5;
+  private static readonly CANCELLED = 'cancelled';
+  // Characters of each message sent when generating a title
+  private static readonly TITLE_SOURCE_LENGTH = 1000;
+  private static readonly MAX_ATTACHMENTS = 50;
+  private static readonly MAX_ATTACHMENT_SIZE = 1024 * 1024;
+  // Diff lines shown when the model wants to write a file
+  private static readonly MAX_DIFF_LINES = 200;
+  // Larger files are not diffed; the table is quadratic in the line counts
+  private static readonly MAX_DIFF_CELLS = 4_000_000;
+
   private api: CerebrasAPI;
   private conversation: ConversationManager;
+  private toolManager: ToolManager;
   private isRunning: boolean = false;
+  // Messages left out of the last request to fit the context window
+  private droppedMessages = 0;
+  // Set with /schema: replies must be JSON matching it
+  private schema?: { path: string; schema: JSONSchema };
+  // Files from /add, sent along with the next message
+  private attachments: FileContent[] = [];
+  // Output of /sh commands, sent along with the next message
+  private commandOutputs: ShellResult[] = [];
+  // Spinner of the running tool, paused while asking for approval
+  private toolSpinner?: Ora;
+  // Command output shown so far did not end with a newline
+  private outputLineOpen = false;
 
   constructor() {
     this.api = new CerebrasAPI();
     this.conversation = new ConversationManager();
+    this.toolManager = new ToolManager({
+      workspaceRoot: config.get('workspaceRoot'),
+      confirmWrite: change => this.confirmWrite(change),
+      confirmCommand: command => this.confirmCommand(command),
+      onShellOutput: chunk => this.showCommandOutput(chunk)
+    });
   }
 
-  async start(initialMessage?: string, systemPrompt?: string, showBanner: boolean = true): Promise<void> {
+  async start(initialMessages: string[] = [], systemPrompt?: string, showBanner: boolean = true): Promise<void> {
     await this.conversation.initialize();
     this.isRunning = true;
 
@@ -36,6 +107,12 @@ export class InteractiveChat {
     }
     displayInfo('Type /help for available commands');
 
+    if (this.conversation.getMessages().length > 0) {
+      const title = this.conversation.getTitle();
+      displayInfo(`Resumed conversation ${title ? `"${title}" ` : ''}(${this.conversation.getSessionId()})`);
+      this.displayConversation();
+    }
+
     if (systemPrompt) {
       this.conversation.addMessage({
         role: 'system',
@@ -44,8 +121,9 @@ export class InteractiveChat {
       displayInfo(`System prompt set: ${systemPrompt}`);
     }
 
-    if (initialMessage) {
-      await this.handleUserInput(initialMessage);
+    for (const message of initialMessages) {
+      console.log(formatMessage('user', message));
+      await this.handleUserInput(message);
     }
 
     while (this.isRunning) {
@@ -73,6 +151,14 @@ export class InteractiveChat {
     }
   }
 
+  /**
+   * Continue a saved conversation: `start` shows its transcript and new
+   * messages are saved to the same session.
+   */
+  async resumeSession(sessionId: string): Promise<void> {
+    await this.conversation.loadSession(sessionId);
+  }
+
   private async handleUserInput(input: string): Promise<void> {
     if (input.startsWith('/')) {
       await this.handleCommand(input);
@@ -106,19 +192,61 @@ export class InteractiveChat {
         await this.showHistory();
         break;
 
+      case 'title':
+        await this.setTitle(arg);
+        break;
+
+      case 'tag':
+      case 'tags':
+        await this.updateTags(args.filter(Boolean));
+        break;
+
+      case 'retry':
+        await this.retryLastReply(arg);
+        break;
+
+      case 'undo':
+        this.undoLastExchange();
+        break;
+
+      case 'n':
+        await this.sendCandidates(arg);
+        break;
+
+      case 'fork':
+        this.forkConversation(arg || undefined);
+        break;
+
+      case 'edit':
+        await this.editMessage(arg);
+        break;
+
+      case 'branch':
+      case 'branches':
+        await this.showBranches(arg || undefined);
+        break;
+
       case 'copy':
         await this.copyLastMessage();
         break;
 
       case 'model':
         if (arg) {
-          config.set('model', arg);
+          config.setModel(arg);
           displaySuccess(`Model changed to: ${arg}`);
         } else {
           await this.showModels();
         }
         break;
 
+      case 'profile':
+        if (arg) {
+          this.switchProfile(arg);
+        } else {
+          await this.showProfiles();
+        }
+        break;
+
       case 'system':
         if (arg) {
           this.conversation.clear();
@@ -176,12 +304,62 @@ export class InteractiveChat {
         }
         break;
 
+      case 'context':
+        if (arg === 'truncate' || arg === 'summarize') {
+          config.set('contextStrategy', arg);
+          displaySuccess(`Context strategy set to: ${arg}`);
+        } else if (arg === 'list') {
+          this.showAttachments();
+        } else if (args[0] === 'drop') {
+          this.dropAttachments(args.slice(1).filter(Boolean));
+        } else if (arg) {
+          displayError('Usage: /context [list | drop <number|path|glob|all> | truncate | summarize]');
+        } else {
+          this.showContext();
+        }
+        break;
+
+      case 'usage':
+        if (arg === 'on' || arg === 'off') {
+          config.set('showUsage', arg === 'on');
+          displaySuccess(`Token usage display ${arg === 'on' ? 'enabled' : 'disabled'}`);
+        } else {
+          await this.showUsage();
+        }
+        break;
+
+      case 'tools':
+        if (arg === 'on' || arg === 'off') {
+          config.set('toolsEnabled', arg === 'on');
+          displaySuccess(`Tool use ${arg === 'on' ? 'enabled' : 'disabled'}`);
+        } else {
+          this.showTools();
+        }
+        break;
+
+      case 'schema':
+        await this.setSchema(arg);
+        break;
+
+      case 'template':
+        if (arg) {
+          await this.useTemplate(arg);
+        } else {
+          await this.showTemplates();
+        }
+        break;
+
+      case 'sh':
+        await this.runCommand(arg.trim());
+        break;
+
+      case 'add':
       case 'file':
       case 'read':
         if (arg) {
-          await this.readFile(arg);
+          await this.addAttachments(args.filter(Boolean));
         } else {
-          displayWarning('Please provide a file path to read');
+          displayWarning('Please provide a file, directory or glob to attach');
         }
         break;
 
@@ -215,20 +393,39 @@ export class InteractiveChat {
       ['/clear', 'Clear the conversation'],
       ['/save', 'Save the current conversation'],
       ['/history', 'Show conversation history'],
+      ['/title [text|auto]', 'Show, set or regenerate the conversation title'],
+      ['/tag [add|rm <tag>]', 'List, add or remove conversation tags'],
+      ['/retry [model] [temp]', 'Regenerate the last reply'],
+      ['/undo', 'Remove the last exchange'],
+      ['/n <count> [message]', 'Generate several replies and pick one'],
+      ['/fork [name]', 'Start a new branch from this point'],
+      ['/edit [N] [text]', 'Rewrite your Nth message and answer it on a new branch'],
+      ['/branches [name]', 'List and switch conversation branches'],
       ['/copy', 'Copy last AI response to clipboard'],
-      ['/file [path]', 'Read a file and include in context'],
+      ['/add <file|dir|glob>', 'Attach files to your next message (/file works too)'],
+      ['/add <file>:<from>-<to>', 'Attach only some lines of a file'],
+      ['/sh <command>', 'Run a shell command; its output can go with your next message'],
+      ['/context list', 'List attached files and command output'],
+      ['/context drop <n|all>', 'Remove attached files by number, path or glob'],
       ['/export [path]', 'Export conversation to file (md/json/txt)'],
-      ['/search [query]', 'Search through conversation history'],
+      ['/search [query]', 'Search history (filters: role: model: tag: since: until:, /regex/)'],
       ['/model [name]', 'Change or show available models'],
+      ['/profile [name]', 'Switch provider profile'],
       ['/system [prompt]', 'Set a new system prompt'],
+      ['/template [name] [k=v]', 'List templates or start from one'],
+      ['/template save <name>', 'Save this conversation as a template'],
       ['/temp [0-2]', 'Set or show temperature'],
       ['/tokens [number]', 'Set or show max tokens'],
       ['/theme [name]', 'Change theme (default, dark, light, colorful)'],
+      ['/tools [on|off]', 'Show available tools or toggle tool use'],
+      ['/context [strategy]', 'Show context window use or set truncate/summarize'],
+      ['/usage [on|off]', 'Show token usage and cost, or toggle it after replies'],
+      ['/schema [file|off]', 'Require replies to be JSON matching a schema'],
       ['/exit', 'Exit the chat']
     ];
 
     commands.forEach(([cmd, desc]) => {
-      console.log(theme.system(`  ${cmd.padEnd(20)} ${desc}`));
+      console.log(theme.system(`  ${cmd.padEnd(24)} ${desc}`));
     });
     console.log();
   }
@@ -236,48 +433,55 @@ export class InteractiveChat {
   private async sendMessage(content: string): Promise<void> {
     this.conversation.addMessage({
       role: 'user',
-      content
+      content: this.takeAttachments(content),
+      metadata: { timestamp: new Date().toISOString() }
     });
 
+    await this.generateReply();
+  }
+
+  /**
+   * Answer the last user message. `alternatives` are earlier replies to the
+   * same message, kept on the new reply.
+   */
+  private async generateReply(options: ReplyOptions = {}): Promise<void> {
     const spinner = createSpinner('Thinking...');
     spinner.start();
 
+    // Ctrl+C while generating cancels the request instead of exiting
+    const controller = new AbortController();
+    const onInterrupt = () => controller.abort();
+    process.on('SIGINT', onInterrupt);
+
     try {
-      const model = config.get('model') || 'llama3.1-8b';
-      const temperature = config.get('temperature') || 0.7;
+      const model = options.model || config.getModel();
+      const temperature = options.temperature ?? (config.get('temperature') || 0.7);
       const maxTokens = config.get('maxTokens') || 1024;
 
-      let fullResponse = '';
-      const theme = getTheme();
+      const request = { model, temperature, max_tokens: maxTokens };
+      const usage = this.schema
+        ? await this.runStructuredReply(request, spinner, controller.signal)
+        : await this.runToolLoop(request, spinner, controller.signal);
+      spinner.stop();
 
-      // First time we receive data, stop spinner and print AI prefix
-      let isFirstChunk = true;
+      if (options.alternatives?.length && this.conversation.getMessages().at(-1)?.role === 'assistant') {
+        this.conversation.updateLastMessageMetadata({ alternatives: options.alternatives });
+      }
 
-      await this.api.streamChatCompletion(
-        {
-          model,
-          messages: this.conversation.getMessages(),
-          temperature,
-          max_tokens: maxTokens,
-          stream: true
-        },
-        (chunk) => {
-          if (isFirstChunk) {
-            spinner.stop();
-            console.log(`\n${theme.assistant('🤖 AI:')}`);
-            isFirstChunk = false;
-          }
-          fullResponse += chunk;
-          process.stdout.write(renderMarkdown(chunk));
+      if (controller.signal.aborted) {
+        displayWarning('Response interrupted');
+      } else {
+        if (usage && config.get('showUsage')) {
+          this.displayUsage(usage);
         }
-      );
-
-      console.log('\n');
-
-      this.conversation.addMessage({
-        role: 'assistant',
-        content: fullResponse
-      });
+        if (
+          config.get('autoTitle') &&
+          !this.conversation.getTitle() &&
+          this.conversation.getUserMessages().length === 1
+        ) {
+          await this.generateTitle(controller.signal);
+        }
+      }
 
       // Auto-save if enabled
       if (config.get('conversationHistory')) {
@@ -286,276 +490,1403 @@ export class InteractiveChat {
     } catch (error) {
       spinner.stop();
       displayError(`Failed to get response: ${error}`);
+    } finally {
+      process.off('SIGINT', onInterrupt);
     }
   }
 
-  private async showHistory(): Promise<void> {
-    const sessions = await this.conversation.listSessions();
-    
-    if (sessions.length === 0) {
-      displayInfo('No conversation history found');
+  private displayUsage(usage: Usage): void {
+    const sessionUsage = this.conversation.getUsage();
+    console.log(formatTokenUsage(usage, {
+      total_tokens: sessionUsage.total_tokens,
+      cost: this.estimateSessionCost()
+    }));
+    console.log();
+  }
+
+  /**
+   * Regenerate the last reply. Arguments may name a model and/or a
+   * temperature, in any order, to use for this reply only.
+   */
+  private async retryLastReply(arg: string): Promise<void> {
+    const options: ReplyOptions = {};
+    for (const token of arg.split(' ').filter(Boolean)) {
+      const temperature = Number(token);
+      if (isNaN(temperature)) {
+        options.model = token;
+      } else if (temperature >= 0 && temperature <= 2) {
+        options.temperature = temperature;
+      } else {
+        displayError('Temperature must be between 0 and 2');
+        return;
+      }
+    }
+
+    if (!this.conversation.getLastUserMessage()) {
+      displayWarning('No message to retry');
       return;
     }
 
-    const choices = sessions.map(session => ({
-      name: `${session.date} (${session.messageCount} messages)`,
-      value: session.id
-    }));
+    const removed = this.conversation.removeLastReply();
+    options.alternatives = this.collectAlternatives(removed);
 
-    choices.push({ name: 'Cancel', value: 'cancel' });
+    await this.generateReply(options);
+  }
 
-    const { sessionId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'sessionId',
-        message: 'Select a conversation to load:',
-        choices
-      }
-    ]);
+  private undoLastExchange(): void {
+    const removed = this.conversation.undo();
+    if (removed.length === 0) {
+      displayWarning('Nothing to undo');
+      return;
+    }
 
-    if (sessionId !== 'cancel') {
-      await this.conversation.loadSession(sessionId);
-      displaySuccess('Conversation loaded');
-      
-      // Display the loaded conversation
-      const messages = this.conversation.getMessages();
-      messages.forEach(msg => {
-        if (msg.role !== 'system') {
-          console.log(formatMessage(msg.role, renderMarkdown(msg.content)));
-        }
+    displaySuccess(`Removed the last exchange (${removed.length} messages)`);
+  }
+
+  /**
+   * Request several replies in parallel and let the user pick one. Without
+   * a message, the last reply is regenerated.
+   */
+  private async sendCandidates(arg: string): Promise<void> {
+    const [countArg, ...rest] = arg.split(' ');
+    const count = parseInt(countArg);
+    const content = rest.join(' ').trim();
+
+    if (isNaN(count) || count < 2 || count > InteractiveChat.MAX_CANDIDATES) {
+      displayError(`Usage: /n <2-${InteractiveChat.MAX_CANDIDATES}> [message]`);
+      return;
+    }
+
+    let alternatives: AlternativeReply[] = [];
+    // Puts the conversation back as it was when no candidate is kept
+    let rollback: () => void;
+    if (content) {
+      const { attachments, commandOutputs } = this;
+      this.conversation.addMessage({
+        role: 'user',
+        content: this.takeAttachments(content),
+        metadata: { timestamp: new Date().toISOString() }
       });
+      rollback = () => {
+        this.conversation.undo();
+        this.attachments = attachments;
+        this.commandOutputs = commandOutputs;
+      };
+    } else if (this.conversation.getLastUserMessage()) {
+      const removed = this.conversation.removeLastReply();
+      alternatives = this.collectAlternatives(removed);
+      rollback = () => removed.forEach(message => this.conversation.addMessage(message));
+    } else {
+      displayWarning('No message to answer');
+      return;
     }
-  }
+    let kept = false;
 
-  private async showModels(): Promise<void> {
-    const spinner = createSpinner('Fetching available models...');
+    const spinner = createSpinner(`Generating ${count} candidates...`);
     spinner.start();
 
+    const controller = new AbortController();
+    const onInterrupt = () => controller.abort();
+    process.on('SIGINT', onInterrupt);
+
     try {
-      const models = await this.api.listModels();
+      const request = {
+        model: config.getModel(),
+        temperature: config.get('temperature') || 0.7,
+        max_tokens: config.get('maxTokens') || 1024
+      };
+      const messages = await this.buildContext(request, undefined, spinner, controller.signal);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: count }, () =>
+          this.api.chatCompletion(
+            { ...request, messages },
+            {
+              onRetry: (info) => { spinner.text = formatRetryNotice(info); },
+              signal: controller.signal
+            }
+          )
+        )
+      );
       spinner.stop();
 
-      const currentModel = config.get('model');
-      const choices = models.map(model => ({
-        name: model.id + (model.id === currentModel ? ' (current)' : ''),
-        value: model.id
-      }));
+      if (controller.signal.aborted) {
+        displayWarning('Response interrupted');
+        return;
+      }
 
-      const { model } = await inquirer.prompt([
-        {
-          type: 'list',
-          name: 'model',
-          message: 'Select a model:',
-          choices
-        }
-      ]);
+      const responses = results
+        .filter((result): result is PromiseFulfilledResult<ChatCompletionResponse> => result.status === 'fulfilled')
+        .map(result => result.value);
 
-      config.set('model', model);
-      displaySuccess(`Model changed to: ${model}`);
-    } catch (error) {
-      spinner.stop();
-      displayError(`Failed to fetch models: ${error}`);
-    }
-  }
+      if (responses.length === 0) {
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        displayError(`Failed to get response: ${failure?.reason}`);
+        return;
+      }
 
-  private async copyLastMessage(): Promise<void> {
-    const lastMessage = this.conversation.getLastAssistantMessage();
-    
-    if (lastMessage) {
-      const success = await copyToClipboard(lastMessage);
-      if (success) {
-        displaySuccess('Last AI response copied to clipboard');
-      } else {
-        displayError('Failed to copy to clipboard');
+      const theme = getTheme();
+      responses.forEach((response, index) => {
+        console.log(`\n${theme.assistant(`🤖 Candidate ${index + 1}:`)}`);
+        console.log(renderMarkdown(response.choices[0].message.content || ''));
+      });
+
+      let choice: number;
+      try {
+        ({ choice } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'choice',
+            message: 'Keep which reply?',
+            choices: responses.map((response, index) => ({
+              name: `${index + 1}. ${truncateString((response.choices[0].message.content || '').replace(/\s+/g, ' '), 70)}`,
+              value: index
+            }))
+          }
+        ]));
+      } catch (error) {
+        // Ctrl+C at the prompt keeps none of them
+        if (error instanceof Error && error.message.includes('force closed')) {
+          displayWarning('No candidate kept');
+          return;
+        }
+        throw error;
       }
-    } else {
-      displayWarning('No AI response to copy');
-    }
-  }
 
-  private async handleExit(): Promise<void> {
-    if (this.conversation.getMessages().length > 0) {
-      const { save } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'save',
-          message: 'Save conversation before exiting?',
-          default: true
+      const usage = responses.reduce<Usage | undefined>((total, response) => addUsage(total, response.usage), undefined);
+      const chosen = responses[choice];
+
+      this.conversation.addMessage({
+        role: 'assistant',
+        content: chosen.choices[0].message.content || '',
+        metadata: {
+          model: chosen.model || request.model,
+          timestamp: new Date().toISOString(),
+          temperature: request.temperature,
+          maxTokens: request.max_tokens,
+          usage,
+          totalUsage: addUsage(this.conversation.getUsage(), usage),
+          alternatives: [
+            ...alternatives,
+            ...responses
+              .filter((_, index) => index !== choice)
+              .map(response => ({
+                content: response.choices[0].message.content || '',
+                model: response.model || request.model
+              }))
+          ]
         }
-      ]);
+      });
+      kept = true;
+      displaySuccess(`Kept candidate ${choice + 1}`);
 
-      if (save) {
+      if (usage && config.get('showUsage')) {
+        this.displayUsage(usage);
+      }
+
+      if (config.get('conversationHistory')) {
         await this.conversation.saveSession();
-        displaySuccess('Conversation saved');
       }
+    } catch (error) {
+      spinner.stop();
+      displayError(`Failed to get response: ${error}`);
+    } finally {
+      process.off('SIGINT', onInterrupt);
+      if (!kept) rollback();
     }
-
-    displayInfo('Goodbye! 👋');
-    this.isRunning = false;
-    process.exit(0);
   }
 
-  private async readFile(filePath: string): Promise<void> {
-    const spinner = createSpinner('Reading file...');
-    spinner.start();
-
-    const fileContent = await FileOperations.readFile(filePath);
-    spinner.stop();
+  /**
+   * Replies removed by /retry or /n, plus the alternatives they already had.
+   */
+  private collectAlternatives(removed: ChatMessage[]): AlternativeReply[] {
+    const reply = removed.filter(message => message.role === 'assistant' && message.content).at(-1);
+    if (!reply) return [];
 
-    if (fileContent) {
-      const formattedContent = FileOperations.formatFileContent(fileContent);
-      const userMessage = `Please analyze this file:\n${formattedContent}`;
-      
-      displayInfo(`File loaded: ${filePath}`);
-      await this.sendMessage(userMessage);
-    }
+    return [
+      ...(reply.metadata?.alternatives || []),
+      { content: reply.content, model: reply.metadata?.model }
+    ];
   }
 
-  private async exportConversation(outputPath?: string): Promise<void> {
-    const messages = this.conversation.getMessages();
-    
-    if (messages.length === 0) {
-      displayWarning('No messages to export');
-      return;
-    }
+  /**
+   * Query the model with the registered tools until it produces a final answer.
+   * Every assistant turn and tool result is appended to the conversation.
+   * Returns the tokens used across all rounds, if the server reported them.
+   */
+  private async runToolLoop(
+    request: Omit<ChatCompletionRequest, 'messages'>,
+    spinner: Ora,
+    signal: AbortSignal
+  ): Promise<Usage | undefined> {
+    const tools = config.get('toolsEnabled')
+      ? formatToolsForAPI(this.toolManager.getTools())
+      : undefined;
+    const theme = getTheme();
+    let turnUsage: Usage | undefined;
 
-    let path = outputPath;
-    let format: 'json' | 'md' | 'txt' = 'md';
+    for (let iteration = 0; ; iteration++) {
+      // Too many tool rounds: ask for an answer based on what we have so far
+      const exhausted = iteration >= InteractiveChat.MAX_TOOL_ITERATIONS;
 
-    if (!path) {
-      const answers = await inquirer.prompt([
+      const messages = await this.buildContext(request, tools, spinner, signal);
+      const response = await this.streamReply(
         {
-          type: 'input',
-          name: 'filename',
-          message: 'Enter filename (without extension):',
-          default: `conversation_${new Date().toISOString().split('T')[0]}`
+          ...request,
+          messages,
+          ...(tools && { tools, tool_choice: exhausted ? 'none' as const : 'auto' as const })
         },
-        {
-          type: 'list',
-          name: 'format',
-          message: 'Select export format:',
-          choices: [
-            { name: 'Markdown (.md)', value: 'md' },
-            { name: 'JSON (.json)', value: 'json' },
-            { name: 'Plain Text (.txt)', value: 'txt' }
-          ],
-          default: 'md'
-        }
-      ]);
-
-      path = `${answers.filename}.${answers.format}`;
-      format = answers.format;
-    } else {
-      // Determine format from extension
-      if (path.endsWith('.json')) format = 'json';
-      else if (path.endsWith('.txt')) format = 'txt';
-      else if (!path.endsWith('.md')) path += '.md';
-    }
-
-    await FileOperations.saveConversation(messages, path, format);
-  }
-
-  private async searchConversations(query: string): Promise<void> {
-    const sessions = await this.conversation.listSessions();
-    
-    if (sessions.length === 0) {
-      displayInfo('No conversation history to search');
-      return;
-    }
-
-    displayInfo(`Searching for: "${query}"...`);
-    const results: Array<{ sessionId: string; date: string; matches: string[] }> = [];
+        spinner,
+        signal
+      );
 
-    for (const session of sessions) {
-      try {
-        await this.conversation.loadSession(session.id);
-        const messages = this.conversation.getMessages();
-        const matches: string[] = [];
-
-        messages.forEach(msg => {
-          if (msg.content.toLowerCase().includes(query.toLowerCase())) {
-            const snippet = this.extractSnippet(msg.content, query);
-            matches.push(`${msg.role}: ${snippet}`);
-          }
-        });
+      const message = response.choices[0].message;
+      const metadata: MessageMetadata = {
+        model: response.model || request.model,
+        timestamp: new Date().toISOString(),
+        temperature: request.temperature,
+        maxTokens: request.max_tokens
+      };
+
+      if (response.usage) {
+        turnUsage = addUsage(turnUsage, response.usage);
+        metadata.usage = response.usage;
+        metadata.totalUsage = addUsage(this.conversation.getUsage(), response.usage);
+      }
 
-        if (matches.length > 0) {
-          results.push({
-            sessionId: session.id,
-            date: session.date,
-            matches: matches.slice(0, 3) // Show max 3 matches per session
+      if (response.choices[0].finish_reason === InteractiveChat.CANCELLED) {
+        // Keep whatever was shown so the conversation matches the screen
+        if (message.content) {
+          this.conversation.addMessage({
+            role: 'assistant',
+            content: message.content,
+            metadata: { ...metadata, truncated: true }
           });
         }
-      } catch (error) {
-        // Skip corrupted sessions
+        return turnUsage;
       }
-    }
 
-    // Clear messages after search
-    this.conversation.clear();
-
-    if (results.length === 0) {
-      displayInfo('No matches found');
-      return;
-    }
+      const toolCalls: ToolCall[] = exhausted ? [] : message.tool_calls || [];
 
-    console.log(`\nFound ${results.length} conversations with matches:\n`);
-    results.forEach((result, index) => {
-      console.log(`${index + 1}. Session from ${new Date(result.date).toLocaleString()}`);
-      result.matches.forEach(match => {
-        console.log(`   - ${match}`);
+      this.conversation.addMessage({
+        role: 'assistant',
+        content: message.content || '',
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        metadata
       });
-      console.log();
-    });
 
-    const { loadSession } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'loadSession',
-        message: 'Would you like to load one of these conversations?',
-        default: false
+      if (toolCalls.length === 0) {
+        return turnUsage;
+      }
+
+      for (const toolCall of toolCalls) {
+        spinner.stop();
+        console.log(theme.system(`🔧 ${toolCall.function.name}(${toolCall.function.arguments})`));
+        spinner.start(`Running ${toolCall.function.name}...`);
+
+        this.toolSpinner = spinner;
+        const result = await this.toolManager.executeTool(toolCall, signal);
+        this.toolSpinner = undefined;
+        this.endCommandOutput();
+        this.conversation.addMessage({ ...result, metadata: { timestamp: new Date().toISOString() } });
+      }
+
+      // Stopped if a tool asked for approval or showed output
+      spinner.start('Thinking...');
+    }
+  }
+
+  /**
+   * Answer with JSON matching the /schema and show it pretty-printed. Tools
+   * are not offered, and replies that fail validation are not kept.
+   */
+  private async runStructuredReply(
+    request: Omit<ChatCompletionRequest, 'messages'>,
+    spinner: Ora,
+    signal: AbortSignal
+  ): Promise<Usage | undefined> {
+    const { path: schemaPath, schema } = this.schema!;
+    const messages = await this.buildContext(request, undefined, spinner, signal);
+
+    let reply: StructuredReply;
+    try {
+      reply = await requestStructuredReply(this.api, { ...request, messages }, schema, {
+        name: schemaName(schemaPath),
+        signal,
+        onRetry: (info) => { spinner.text = formatRetryNotice(info); },
+        onInvalid: (errors, attempt) => {
+          spinner.text = `Reply did not match the schema (${errors.length} problems), retrying (attempt ${attempt + 1})...`;
+        }
+      });
+    } catch (error) {
+      if (isCancellation(error)) return undefined;
+      if (!(error instanceof SchemaValidationError)) throw error;
+
+      spinner.stop();
+      displayError(error.message);
+      error.errors.forEach(problem => console.log(getTheme().error(`  ${problem}`)));
+      console.log();
+      return undefined;
+    }
+    spinner.stop();
+
+    const content = JSON.stringify(reply.value, null, 2);
+    console.log(`\n${getTheme().assistant('🤖 AI:')}`);
+    console.log(renderMarkdown('```json\n' + content + '\n```'));
+
+    this.conversation.addMessage({
+      role: 'assistant',
+      content,
+      metadata: {
+        model: reply.response.model || request.model,
+        timestamp: new Date().toISOString(),
+        temperature: request.temperature,
+        maxTokens: request.max_tokens,
+        ...(reply.usage && {
+          usage: reply.usage,
+          totalUsage: addUsage(this.conversation.getUsage(), reply.usage)
+        })
+      }
+    });
+
+    return reply.usage;
+  }
+
+  /**
+   * Stream a single model turn to the terminal. The spinner keeps running
+   * until the first content arrives, so tool-only turns print nothing.
+   *
+   * A cancelled request resolves with the partial content and a
+   * `cancelled` finish reason rather than throwing.
+   */
+  private async streamReply(
+    request: ChatCompletionRequest,
+    spinner: Ora,
+    signal: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    const theme = getTheme();
+
+    // First time we receive data, stop spinner and print AI prefix
+    let isFirstChunk = true;
+    let content = '';
+
+    try {
+      const response = await this.api.streamChatCompletion(
+        { ...request, stream: true },
+        (chunk) => {
+          if (isFirstChunk) {
+            spinner.stop();
+            console.log(`\n${theme.assistant('🤖 AI:')}`);
+            isFirstChunk = false;
+          }
+          content += chunk;
+          process.stdout.write(renderMarkdown(chunk));
+        },
+        {
+          onRetry: (info) => { spinner.text = formatRetryNotice(info); },
+          signal
+        }
+      );
+
+      return response;
+    } catch (error) {
+      if (!isCancellation(error)) {
+        throw error;
+      }
+
+      spinner.stop();
+      return {
+        id: '',
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: request.model,
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content },
+            finish_reason: InteractiveChat.CANCELLED
+          }
+        ]
+      };
+    } finally {
+      if (!isFirstChunk) {
+        console.log('\n');
+      }
+    }
+  }
+
+  /**
+   * Fit the conversation into the model's context window, telling the user
+   * whenever more of the earlier conversation has to be left out.
+   */
+  private async buildContext(
+    request: Omit<ChatCompletionRequest, 'messages'>,
+    tools: any[] | undefined,
+    spinner: Ora,
+    signal: AbortSignal
+  ): Promise<ChatMessage[]> {
+    const reserved = (request.max_tokens || 0) + (tools ? estimateTokens(JSON.stringify(tools)) : 0);
+
+    const window = await this.conversation.prepareContext(
+      request.model,
+      reserved,
+      (messages, maxTokens) => {
+        spinner.text = 'Summarizing earlier conversation...';
+        return this.summarizeMessages(request.model, messages, maxTokens, signal);
+      }
+    );
+    spinner.text = 'Thinking...';
+
+    if (window.droppedMessages > this.droppedMessages) {
+      spinner.stop();
+      if (window.summarized) {
+        displayInfo(`Summarized ${window.droppedMessages} earlier messages to fit the context window`);
+      } else {
+        displayWarning(`Left out ${window.droppedMessages} earlier messages to fit the context window`);
+      }
+      spinner.start();
+    }
+    this.droppedMessages = window.droppedMessages;
+
+    return window.messages;
+  }
+
+  private async summarizeMessages(
+    model: string,
+    messages: ChatMessage[],
+    maxTokens: number,
+    signal: AbortSignal
+  ): Promise<string> {
+    // The transcript itself has to fit next to the summary
+    const maxChars = Math.max(0, getContextSize(model) - maxTokens - 256) * 4;
+    const transcript = messages
+      .filter(message => message.content)
+      .map(message => `${message.role}: ${message.content}`)
+      .join('\n\n')
+      .slice(-maxChars);
+
+    const response = await this.api.chatCompletion({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'Summarize the following conversation so it can be continued without it. ' +
+            'Keep facts, decisions, names, code identifiers and open questions. Be concise.'
+        },
+        { role: 'user', content: transcript }
+      ],
+      max_tokens: maxTokens,
+      temperature: 0.3
+    }, { signal });
+
+    return response.choices[0].message.content || '';
+  }
+
+  /**
+   * Name the conversation after its first exchange with a short, separate
+   * request. Failures are ignored; the conversation just stays untitled.
+   */
+  private async generateTitle(signal: AbortSignal): Promise<boolean> {
+    const transcript = this.conversation.getMessages()
+      .filter(message => (message.role === 'user' || message.role === 'assistant') && message.content)
+      .slice(0, 2)
+      .map(message => `${message.role}: ${truncateString(message.content, InteractiveChat.TITLE_SOURCE_LENGTH)}`)
+      .join('\n\n');
+    if (!transcript) return false;
+
+    try {
+      const response = await this.api.chatCompletion({
+        model: config.get('titleModel') || config.getModel(),
+        messages: [
+          {
+            role: 'system',
+            content: 'Write a short title (at most 6 words) for the following conversation. ' +
+              'Reply with the title only, without quotes or punctuation at the end.'
+          },
+          { role: 'user', content: transcript }
+        ],
+        max_tokens: 24,
+        temperature: 0.3
+      }, { signal });
+
+      const title = (response.choices[0]?.message.content || '')
+        .split('\n')[0]
+        .replace(/^["'#*\s]+|["'.*\s]+$/g, '')
+        .substring(0, 80);
+      if (!title) return false;
+      this.conversation.setTitle(title);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private async setTitle(arg: string): Promise<void> {
+    if (!arg) {
+      const title = this.conversation.getTitle();
+      displayInfo(title ? `Title: ${title}` : 'This conversation has no title yet');
+      return;
+    }
+
+    if (arg === 'auto') {
+      const controller = new AbortController();
+      const onInterrupt = () => controller.abort();
+      process.on('SIGINT', onInterrupt);
+
+      try {
+        if (!(await this.generateTitle(controller.signal))) {
+          displayError('Could not generate a title');
+          return;
+        }
+      } finally {
+        process.off('SIGINT', onInterrupt);
+      }
+    } else {
+      this.conversation.setTitle(arg);
+    }
+
+    await this.saveIfStarted();
+    displaySuccess(`Title set to: ${this.conversation.getTitle()}`);
+  }
+
+  private async updateTags(args: string[]): Promise<void> {
+    const [action, ...tags] = args;
+
+    if (!action) {
+      const current = this.conversation.getTags();
+      displayInfo(current.length > 0 ? `Tags: ${current.join(', ')}` : 'This conversation has no tags');
+      return;
+    }
+
+    if ((action !== 'add' && action !== 'rm' && action !== 'remove') || tags.length === 0) {
+      displayWarning('Usage: /tag add <tag...> or /tag rm <tag...>');
+      return;
+    }
+
+    for (const tag of tags) {
+      if (action === 'add') {
+        if (this.conversation.addTag(tag)) {
+          displaySuccess(`Tagged: ${tag.toLowerCase()}`);
+        } else {
+          displayInfo(`Already tagged: ${tag.toLowerCase()}`);
+        }
+      } else if (this.conversation.removeTag(tag)) {
+        displaySuccess(`Removed tag: ${tag.toLowerCase()}`);
+      } else {
+        displayWarning(`Not tagged: ${tag}`);
+      }
+    }
+
+    await this.saveIfStarted();
+  }
+
+  /**
+   * Save the session right away unless it is still empty, so titles and
+   * tags show up in history without waiting for the next reply.
+   */
+  private async saveIfStarted(): Promise<void> {
+    if (config.get('conversationHistory') && this.conversation.getMessages().length > 0) {
+      await this.conversation.saveSession();
+    }
+  }
+
+  private async showTemplates(): Promise<void> {
+    const templates = await new TemplateManager().listTemplates();
+    if (templates.length === 0) {
+      displayInfo('No templates yet. Add one with "cere template add <name>"');
+      return;
+    }
+
+    printTemplates(templates);
+  }
+
+  /**
+   * Apply a template: its system prompt starts a new conversation like
+   * /system, its settings last for this session, and its prompt is sent.
+   * Variables not given as name=value arguments are asked for.
+   */
+  private async useTemplate(arg: string): Promise<void> {
+    const [name, ...pairs] = arg.split(' ').filter(Boolean);
+    if (name === 'save') {
+      await this.saveAsTemplate(pairs[0]);
+      return;
+    }
+
+    try {
+      const template = await new TemplateManager().getTemplate(name);
+      const values = await askForVariables(template, parseVariables(pairs));
+      const rendered = renderTemplate(template, values);
+
+      config.useSettings({
+        model: template.model,
+        temperature: template.temperature,
+        maxTokens: template.max_tokens
+      });
+
+      if (rendered.system) {
+        this.conversation.clear();
+        this.conversation.addMessage({ role: 'system', content: rendered.system });
+      }
+      displaySuccess(`Using template: ${name}`);
+
+      for (const turn of splitTurns(rendered.prompt)) {
+        console.log(formatMessage('user', turn));
+        await this.sendMessage(turn);
+      }
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Save the system prompt and user turns of this conversation as a
+   * template that can be started again or replayed with "cere replay".
+   */
+  private async saveAsTemplate(name?: string): Promise<void> {
+    if (!name) {
+      displayWarning('Usage: /template save <name>');
+      return;
+    }
+    if (!this.conversation.getLastUserMessage()) {
+      displayWarning('No messages to save');
+      return;
+    }
+
+    try {
+      const manager = new TemplateManager();
+      const template = templateFromMessages(name, this.conversation.getMessages());
+      if (!(await manager.saveTemplate(template))) {
+        const { overwrite } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'overwrite',
+            message: `Template ${name} exists. Replace it?`,
+            default: false
+          }
+        ]);
+        if (!overwrite) return;
+        await manager.saveTemplate(template, true);
+      }
+
+      displaySuccess(`Saved ${splitTurns(template.prompt).length} turns as template: ${name}`);
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async setSchema(arg: string): Promise<void> {
+    if (!arg) {
+      if (this.schema) {
+        displayInfo(`Replies must match the JSON schema in ${this.schema.path}`);
+      } else {
+        displayInfo('No JSON schema set. Use /schema <file> to require structured replies.');
+      }
+      return;
+    }
+
+    if (arg === 'off') {
+      this.schema = undefined;
+      displaySuccess('JSON schema removed, replies are free-form again');
+      return;
+    }
+
+    try {
+      this.schema = { path: arg, schema: await loadSchema(arg) };
+      displaySuccess(`Replies must now match the JSON schema in ${arg}`);
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private showContext(): void {
+    const theme = getTheme();
+    const model = config.getModel();
+    const window = this.conversation.getContextWindow(model, config.get('maxTokens') || 1024);
+    const total = this.conversation.getMessages().length;
+    const used = window.estimatedTokens + window.reservedTokens;
+    const percent = Math.round((used / window.contextSize) * 100);
+
+    console.log(theme.info('\n🧠 Context Window:\n'));
+    console.log(`  Model:          ${model} (${window.contextSize} tokens)`);
+    console.log(`  Conversation:   ~${window.estimatedTokens} tokens in ${window.messages.length}/${total} messages`);
+    console.log(`  Reply reserve:  ${window.reservedTokens} tokens`);
+    console.log(`  Budget used:    ${percent}%`);
+    console.log(`  Strategy:       ${config.get('contextStrategy')}`);
+    if (window.droppedMessages > 0) {
+      console.log(theme.warning(`  ${window.droppedMessages} older messages no longer fit and will be ${config.get('contextStrategy') === 'summarize' ? 'summarized' : 'left out'}`));
+    }
+    if (this.attachments.length > 0 || this.commandOutputs.length > 0) {
+      const tokens = this.getAttachedTokens();
+      console.log(`  Attached:       ${this.describeAttachments()} (~${tokens} tokens, sent with your next message; see /context list)`);
+      if (used + tokens > window.contextSize) {
+        console.log(theme.warning('  The attachments do not fit in the context window with this conversation'));
+      }
+    }
+    console.log();
+  }
+
+  private estimateSessionCost(): string | undefined {
+    const cost = estimateMessagesCost(this.conversation.getAllMessages());
+    return cost === undefined ? undefined : formatCost(cost);
+  }
+
+  private async showUsage(): Promise<void> {
+    const usage = this.conversation.getUsage();
+    const theme = getTheme();
+
+    console.log(theme.info('\n📊 This Session:\n'));
+    console.log(`  ${usage.prompt_tokens} prompt + ${usage.completion_tokens} completion = ${usage.total_tokens} tokens (~${this.estimateSessionCost() || formatCost(undefined)})`);
+
+    const sessions = await this.conversation.loadAllSessions();
+    const rows = summarizeUsage(sessions.map(session => ({ ...session, messages: getSessionMessages(session) })));
+    if (rows.length > 0) {
+      console.log(theme.info('\n📅 Saved History:\n'));
+      printUsageTable(rows);
+    }
+    console.log();
+  }
+
+  private showTools(): void {
+    const theme = getTheme();
+    const status = config.get('toolsEnabled') ? 'enabled' : 'disabled';
+    console.log(theme.info(`\n🔧 Available Tools (${status}):\n`));
+
+    this.toolManager.getTools().forEach(tool => {
+      console.log(theme.system(`  ${tool.function.name.padEnd(20)} ${tool.function.description}`));
+    });
+    console.log(theme.system(`\n  File tools and commands work in ${this.toolManager.getWorkspaceRoot()}`));
+    const policy = getShellPolicy();
+    console.log(theme.system(`  Shell commands: ${
+      policy === 'deny' ? 'never run' : policy === 'allowlist' ? 'allowlisted ones run, others are asked about' : 'asked about before running'
+    } (policy: ${policy})`));
+    console.log();
+  }
+
+  /**
+   * Show the diff of a write_file call and ask whether to apply it. Without
+   * a terminal to ask on, the write is refused.
+   */
+  private async confirmWrite(change: FileChange): Promise<boolean> {
+    this.toolSpinner?.stop();
+    const theme = getTheme();
+    const oldContent = change.oldContent ?? '';
+    const newLines = change.newContent.split('\n').length;
+    const lineCount = newLines - (change.newContent.endsWith('\n') ? 1 : 0);
+
+    console.log(theme.info(change.oldContent === undefined
+      ? `\n📝 The AI wants to create ${change.relativePath} (${lineCount} lines):\n`
+      : `\n📝 The AI wants to change ${change.relativePath}:\n`));
+
+    if (oldContent.split('\n').length * newLines > InteractiveChat.MAX_DIFF_CELLS) {
+      console.log(theme.system(`  (too large to diff: ${oldContent.split('\n').length} lines become ${newLines})`));
+    } else {
+      const lines = formatUnifiedDiff(oldContent, change.newContent).split('\n');
+      lines.slice(0, InteractiveChat.MAX_DIFF_LINES).forEach(line => {
+        if (line.startsWith('@@')) console.log(theme.info(line));
+        else if (line.startsWith('+')) console.log(theme.success(line));
+        else if (line.startsWith('-')) console.log(theme.error(line));
+        else console.log(theme.system(line));
+      });
+      if (lines.length > InteractiveChat.MAX_DIFF_LINES) {
+        console.log(theme.system(`... ${lines.length - InteractiveChat.MAX_DIFF_LINES} more diff lines`));
+      }
+    }
+    console.log();
+
+    if (!process.stdin.isTTY) {
+      displayWarning(`Not writing ${change.relativePath}: approval needs an interactive terminal`);
+      return false;
+    }
+
+    const { apply } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'apply',
+        message: `Write ${change.relativePath}?`,
+        default: false
+      }
+    ]);
+    this.toolSpinner?.start(apply ? `Writing ${change.relativePath}...` : 'Thinking...');
+    return apply;
+  }
+
+  /**
+   * Ask whether to run a command the model wants to run. Without a terminal
+   * to ask on, the command is refused.
+   */
+  private async confirmCommand(command: string): Promise<boolean> {
+    this.toolSpinner?.stop();
+    const theme = getTheme();
+    console.log(theme.info('\n💻 The AI wants to run:\n'));
+    console.log(`  ${command}`);
+    console.log(theme.system(`  (in ${this.toolManager.getWorkspaceRoot()})\n`));
+
+    if (!process.stdin.isTTY) {
+      displayWarning('Not running the command: approval needs an interactive terminal');
+      return false;
+    }
+
+    const { run } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'run',
+        message: 'Run this command?',
+        default: false
+      }
+    ]);
+    if (!run) this.toolSpinner?.start('Thinking...');
+    return run;
+  }
+
+  private showCommandOutput(chunk: string): void {
+    this.toolSpinner?.stop();
+    process.stdout.write(getTheme().system(chunk));
+    this.outputLineOpen = !chunk.endsWith('\n');
+  }
+
+  private endCommandOutput(): void {
+    if (this.outputLineOpen) {
+      process.stdout.write('\n');
+      this.outputLineOpen = false;
+    }
+  }
+
+  /**
+   * Run a command typed with /sh, showing its output as it arrives, and
+   * offer to send the output along with the next message. Ctrl+C stops
+   * the command.
+   */
+  private async runCommand(command: string): Promise<void> {
+    if (!command) {
+      displayWarning('Usage: /sh <command>');
+      return;
+    }
+
+    const controller = new AbortController();
+    const onInterrupt = () => controller.abort();
+    process.on('SIGINT', onInterrupt);
+
+    let result: ShellResult;
+    try {
+      result = await runShellCommand(command, {
+        cwd: this.toolManager.getWorkspaceRoot(),
+        onOutput: chunk => this.showCommandOutput(chunk),
+        signal: controller.signal
+      });
+    } catch (error) {
+      displayError(`Failed to run command: ${error instanceof Error ? error.message : error}`);
+      return;
+    } finally {
+      process.off('SIGINT', onInterrupt);
+      this.endCommandOutput();
+    }
+
+    const status = `${describeShellStatus(result)} after ${(result.durationMs / 1000).toFixed(1)}s`;
+    if (result.exitCode === 0) {
+      displayInfo(`Command finished: ${status}`);
+    } else {
+      displayWarning(`Command finished: ${status}`);
+    }
+    if (result.truncated) {
+      displayWarning(`Output is over ${config.get('shellMaxOutput')} characters; only its start and end would be sent`);
+    }
+
+    if (!process.stdin.isTTY) return;
+    const { attach } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'attach',
+        message: 'Send the output with your next message?',
+        default: true
       }
     ]);
+    if (attach) {
+      this.commandOutputs.push(result);
+      displaySuccess(`Output attached (~${estimateTokens(formatShellResult(result))} tokens); it will be sent with your next message`);
+    }
+  }
+
+  private async showHistory(): Promise<void> {
+    const sessions = await this.conversation.listSessions();
+    
+    if (sessions.length === 0) {
+      displayInfo('No conversation history found');
+      return;
+    }
 
-    if (loadSession) {
-      const choices = results.map((result, index) => ({
-        name: `${index + 1}. ${new Date(result.date).toLocaleString()} (${result.matches.length} matches)`,
-        value: result.sessionId
+    const choices = sessions.map(session => ({
+      name: describeSession(session),
+      value: session.id
+    }));
+
+    choices.push({ name: 'Cancel', value: 'cancel' });
+
+    const { sessionId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'sessionId',
+        message: 'Select a conversation to load:',
+        choices
+      }
+    ]);
+
+    if (sessionId !== 'cancel') {
+      await this.conversation.loadSession(sessionId);
+      displaySuccess('Conversation loaded');
+      
+      this.displayConversation();
+    }
+  }
+
+  private displayConversation(): void {
+    printTranscript(this.conversation.getMessages());
+  }
+
+  private forkConversation(name?: string): void {
+    try {
+      const branch = this.conversation.fork(name);
+      displaySuccess(`Forked to new branch: ${branch.name}`);
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async editMessage(arg: string): Promise<void> {
+    const userMessages = this.conversation.getUserMessages();
+    if (userMessages.length === 0) {
+      displayWarning('No messages to edit');
+      return;
+    }
+
+    const [numberArg, ...rest] = arg.split(' ');
+    const number = parseInt(numberArg);
+
+    if (!numberArg || isNaN(number)) {
+      const theme = getTheme();
+      console.log(theme.info('\n✏️  Your messages (use /edit N [new text]):\n'));
+      userMessages.forEach(message => {
+        console.log(`  ${String(message.number).padStart(3)}. ${truncateString(message.content.replace(/\s+/g, ' '), 70)}`);
+      });
+      console.log();
+      return;
+    }
+
+    const original = userMessages.find(message => message.number === number);
+    if (!original) {
+      displayError(`No message #${number}. Choose between 1 and ${userMessages.length}`);
+      return;
+    }
+
+    let content = rest.join(' ');
+    if (!content) {
+      ({ content } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'content',
+          message: `Edit message #${number}:`,
+          default: original.content
+        }
+      ]));
+    }
+
+    if (!content.trim()) {
+      displayWarning('Edit cancelled');
+      return;
+    }
+
+    this.conversation.branchBeforeUserMessage(number);
+    displaySuccess(`Created branch: ${this.conversation.getCurrentBranch().name}`);
+    await this.sendMessage(content);
+  }
+
+  private async showBranches(nameOrId?: string): Promise<void> {
+    let target = nameOrId;
+
+    if (!target) {
+      const branches = this.conversation.listBranches();
+      const { branch } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'branch',
+          message: 'Select a branch:',
+          choices: branches.map(branch => ({
+            name: `${branch.name}${branch.current ? ' (current)' : ''} - ${branch.messageCount} messages` +
+              (branch.lastMessage ? `: ${truncateString(branch.lastMessage.replace(/\s+/g, ' '), 50)}` : ''),
+            value: branch.id
+          })),
+          default: this.conversation.getCurrentBranch().id
+        }
+      ]);
+      target = branch as string;
+    }
+
+    try {
+      const branch = this.conversation.switchBranch(target);
+      displaySuccess(`Switched to branch: ${branch.name}`);
+      this.displayConversation();
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async showModels(): Promise<void> {
+    const spinner = createSpinner('Fetching available models...');
+    spinner.start();
+
+    try {
+      const models = await this.api.listModels({
+        onRetry: (info) => { spinner.text = formatRetryNotice(info); }
+      });
+      spinner.stop();
+
+      const currentModel = config.getModel();
+      const choices = models.map(model => ({
+        name: model.id + (model.id === currentModel ? ' (current)' : ''),
+        value: model.id
       }));
 
-      const { sessionId } = await inquirer.prompt([
+      const { model } = await inquirer.prompt([
         {
           type: 'list',
-          name: 'sessionId',
-          message: 'Select conversation to load:',
+          name: 'model',
+          message: 'Select a model:',
           choices
         }
       ]);
 
-      await this.conversation.loadSession(sessionId);
-      displaySuccess('Conversation loaded');
-      
-      // Display the loaded conversation
-      const messages = this.conversation.getMessages();
-      messages.forEach(msg => {
-        if (msg.role !== 'system') {
-          console.log(formatMessage(msg.role, renderMarkdown(msg.content)));
+      config.setModel(model);
+      displaySuccess(`Model changed to: ${model}`);
+    } catch (error) {
+      spinner.stop();
+      displayError(`Failed to fetch models: ${error}`);
+    }
+  }
+
+  private async showProfiles(): Promise<void> {
+    const current = config.getProfileName();
+    const names = [DEFAULT_PROFILE, ...Object.keys(config.getProfiles())];
+
+    const { profile } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'profile',
+        message: 'Select a profile:',
+        choices: names.map(name => ({
+          name: `${name} (${config.getProfile(name).baseURL})` + (name === current ? ' (current)' : ''),
+          value: name
+        })),
+        default: current
+      }
+    ]);
+
+    this.switchProfile(profile);
+  }
+
+  private switchProfile(name: string): void {
+    const previous = config.getProfileName();
+
+    try {
+      config.useProfile(name);
+      this.api = new CerebrasAPI();
+      displaySuccess(`Switched to profile: ${name} (model: ${config.getModel()})`);
+    } catch (error) {
+      config.useProfile(previous);
+      displayError(`Failed to switch profile: ${error}`);
+    }
+  }
+
+  private async copyLastMessage(): Promise<void> {
+    const lastMessage = this.conversation.getLastAssistantMessage();
+    
+    if (lastMessage) {
+      const success = await copyToClipboard(lastMessage);
+      if (success) {
+        displaySuccess('Last AI response copied to clipboard');
+      } else {
+        displayError('Failed to copy to clipboard');
+      }
+    } else {
+      displayWarning('No AI response to copy');
+    }
+  }
+
+  private async handleExit(): Promise<void> {
+    if (this.conversation.getMessages().length > 0) {
+      const { save } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'save',
+          message: 'Save conversation before exiting?',
+          default: true
+        }
+      ]);
+
+      if (save) {
+        await this.conversation.saveSession();
+        displaySuccess('Conversation saved');
+      }
+    }
+
+    displayInfo('Goodbye! 👋');
+    this.isRunning = false;
+    process.exit(0);
+  }
+
+  /**
+   * Attach the files matching each target to the next message. Binary and
+   * oversized files are skipped, as is anything past the attachment limits.
+   * A file named directly may come with a line range (`src/big.ts:100-250`);
+   * without one, an oversized file is cut down to its first and last lines
+   * and a binary file is described instead.
+   */
+  private async addAttachments(targets: string[]): Promise<void> {
+    const skipped: Record<SkipReason | 'limit', number> = {
+      'not-a-file': 0,
+      'too-large': 0,
+      binary: 0,
+      unreadable: 0,
+      limit: 0
+    };
+    let totalSize = this.attachments.reduce((total, file) => total + Buffer.byteLength(file.content), 0);
+    const added: FileContent[] = [];
+
+    for (const spec of targets) {
+      const { path: target, range } = await FileOperations.parseFileSpec(spec);
+      const paths = range ? [target] : await FileOperations.collectFiles(target);
+      if (paths.length === 0) {
+        displayWarning(`No files match ${target}`);
+        continue;
+      }
+
+      for (const filePath of paths) {
+        const result = await FileOperations.tryReadFile(
+          filePath,
+          paths.length === 1 ? { range, describeBinary: true, truncate: true } : {}
+        );
+        if (!result.file) {
+          // Explain failures for files named directly; count the rest
+          if (paths.length === 1) {
+            displayError(result.error || `Failed to read file: ${filePath}`);
+          } else {
+            skipped[result.skipped || 'unreadable']++;
+          }
+          continue;
+        }
+
+        const file = result.file;
+        if ([...this.attachments, ...added].some(other => other.path === file.path && other.excerpt === file.excerpt)) continue;
+
+        const size = Buffer.byteLength(file.content);
+        if (
+          this.attachments.length + added.length >= InteractiveChat.MAX_ATTACHMENTS ||
+          totalSize + size > InteractiveChat.MAX_ATTACHMENT_SIZE
+        ) {
+          skipped.limit++;
+          continue;
+        }
+
+        if (paths.length === 1 && file.excerpt && !range) {
+          displayWarning(`${target} is over 1MB; attaching its ${file.excerpt}. Add a line range like ${target}:100-250 for another part`);
         }
+        if (file.binary) {
+          displayWarning(`${target} is a binary file; attaching a description and hex dump of its start`);
+        }
+        added.push(file);
+        totalSize += size;
+      }
+    }
+
+    this.attachments.push(...added);
+    if (added.length > 0) {
+      const tokens = added.reduce((total, file) => total + estimateTokens(file.content), 0);
+      displaySuccess(`Attached ${added.length} file${added.length === 1 ? '' : 's'} (~${tokens} tokens); they will be sent with your next message`);
+    }
+
+    const reasons = [
+      skipped.binary && `${skipped.binary} binary`,
+      skipped['too-large'] && `${skipped['too-large']} too large`,
+      skipped.unreadable && `${skipped.unreadable} unreadable`,
+      skipped.limit && `${skipped.limit} over the limit of ${InteractiveChat.MAX_ATTACHMENTS} files / ${InteractiveChat.MAX_ATTACHMENT_SIZE / 1024 / 1024}MB`
+    ].filter(Boolean);
+    if (reasons.length > 0) {
+      displayWarning(`Skipped ${reasons.join(', ')}`);
+    }
+  }
+
+  private getAttachedTokens(): number {
+    return this.attachments.reduce((total, file) => total + estimateTokens(file.content), 0) +
+      this.commandOutputs.reduce((total, result) => total + estimateTokens(formatShellResult(result)), 0);
+  }
+
+  private describeAttachments(): string {
+    const files = this.attachments.length;
+    const outputs = this.commandOutputs.length;
+    return [
+      files && `${files} file${files === 1 ? '' : 's'}`,
+      outputs && `${outputs} command output${outputs === 1 ? '' : 's'}`
+    ].filter(Boolean).join(' and ');
+  }
+
+  private showAttachments(): void {
+    if (this.attachments.length === 0 && this.commandOutputs.length === 0) {
+      displayInfo('Nothing attached. Add files with /add <file|dir|glob> or command output with /sh <command>');
+      return;
+    }
+
+    const theme = getTheme();
+    console.log(theme.info(`\n📎 Attached (~${this.getAttachedTokens()} tokens, sent with your next message):\n`));
+    this.attachments.forEach((file, index) => {
+      const details = [
+        file.excerpt,
+        file.binary ? 'binary, described' : file.encoding !== 'utf-8' && file.encoding,
+        `${(file.size / 1024).toFixed(1)}KB`,
+        `~${estimateTokens(file.content)} tokens`
+      ].filter(Boolean).join(', ');
+      console.log(`  ${String(index + 1).padStart(2)}. ${path.relative(process.cwd(), file.path)} ${theme.system(`(${details})`)}`);
+    });
+    this.commandOutputs.forEach((result, index) => {
+      const details = `${describeShellStatus(result)}, ~${estimateTokens(formatShellResult(result))} tokens`;
+      console.log(`  ${String(this.attachments.length + index + 1).padStart(2)}. $ ${result.command} ${theme.system(`(${details})`)}`);
+    });
+    console.log();
+  }
+
+  /**
+   * Remove attachments by number, path or glob, or all of them. Command
+   * output is numbered after the files and dropped by number.
+   */
+  private dropAttachments(targets: string[]): void {
+    if (targets.length === 0) {
+      displayWarning('Usage: /context drop <number|path|glob|all>');
+      return;
+    }
+
+    const before = this.attachments.length + this.commandOutputs.length;
+    if (targets.includes('all')) {
+      this.attachments = [];
+      this.commandOutputs = [];
+    } else {
+      const numbers = new Set(targets.filter(target => /^\d+$/.test(target)).map(Number));
+      const patterns = targets.filter(target => !/^\d+$/.test(target)).map(target => globToRegExp(target));
+      const fileCount = this.attachments.length;
+      this.attachments = this.attachments.filter((file, index) => {
+        const relative = path.relative(process.cwd(), file.path).split(path.sep).join('/');
+        return !numbers.has(index + 1) && !patterns.some(pattern => pattern.test(relative) || pattern.test(file.path));
       });
+      this.commandOutputs = this.commandOutputs.filter((_, index) => !numbers.has(fileCount + index + 1));
+    }
+
+    const remaining = this.attachments.length + this.commandOutputs.length;
+    const dropped = before - remaining;
+    if (dropped === 0) {
+      displayWarning('Nothing attached matched');
+    } else {
+      displaySuccess(`Dropped ${dropped} attachment${dropped === 1 ? '' : 's'}; ${remaining} still attached`);
     }
   }
 
-  private extractSnippet(content: string, query: string, contextLength: number = 50): string {
-    const index = content.toLowerCase().indexOf(query.toLowerCase());
-    if (index === -1) return '';
+  /**
+   * The message with any attached files and command output in front of it.
+   * The attachments are used up.
+   */
+  private takeAttachments(content: string): string {
+    if (this.attachments.length === 0 && this.commandOutputs.length === 0) return content;
+
+    const files = this.attachments.map(file => FileOperations.formatFileContent(file)).join('');
+    const outputs = this.commandOutputs.map(result => formatShellResult(result)).join('');
+    displayInfo(`Sending ${this.describeAttachments()}`);
+    this.attachments = [];
+    this.commandOutputs = [];
+    return `${files}${outputs}\n${content}`;
+  }
 
-    const start = Math.max(0, index - contextLength);
-    const end = Math.min(content.length, index + query.length + contextLength);
-    
-    let snippet = content.substring(start, end);
-    if (start > 0) snippet = '...' + snippet;
-    if (end < content.length) snippet = snippet + '...';
+  private async exportConversation(outputPath?: string): Promise<void> {
+    const messages = this.conversation.getMessages();
     
-    return snippet.trim();
+    if (messages.length === 0) {
+      displayWarning('No messages to export');
+      return;
+    }
+
+    let path = outputPath;
+    let format: ExportFormat = 'md';
+
+    if (!path) {
+      const answers = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'filename',
+          message: 'Enter filename (without extension):',
+          default: `conversation_${new Date().toISOString().split('T')[0]}`
+        },
+        {
+          type: 'list',
+          name: 'format',
+          message: 'Select export format:',
+          choices: [
+            { name: 'Markdown (.md)', value: 'md' },
+            { name: 'HTML (.html)', value: 'html' },
+            { name: 'JSON (.json)', value: 'json' },
+            { name: 'JSONL for fine-tuning (.jsonl)', value: 'jsonl' },
+            { name: 'Plain Text (.txt)', value: 'txt' }
+          ],
+          default: 'md'
+        }
+      ]);
+
+      path = `${answers.filename}.${answers.format}`;
+      format = answers.format;
+    } else {
+      // Determine format from extension
+      const detected = getExportFormat(path);
+      if (detected) format = detected;
+      else path += '.md';
+    }
+
+    await FileOperations.saveConversation(this.conversation.getSessionData(), path, format);
+  }
+
+  /**
+   * Search saved conversations without touching the current one. A result
+   * is only loaded when picked, after saving the current conversation.
+   */
+  private async searchConversations(input: string): Promise<void> {
+    let results: SessionHit[];
+    let parsed: ReturnType<typeof parseSearchQuery>;
+    try {
+      parsed = parseSearchQuery(input);
+      results = await new SearchIndex().search(parsed.query, parsed.options);
+    } catch (error) {
+      displayError(`Search failed: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    if (results.length === 0) {
+      displayInfo('No matches found');
+      return;
+    }
+
+    printSearchResults(results, parsed.query, parsed.options.regex);
+
+    const { sessionId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'sessionId',
+        message: 'Open a conversation?',
+        choices: [
+          { name: 'No, keep the current conversation', value: '' },
+          ...results.map((result, index) => ({
+            name: `${index + 1}. ${result.title ? `${result.title} - ` : ''}${formatTimestamp(new Date(result.date))} (${result.sessionId})`,
+            value: result.sessionId
+          }))
+        ]
+      }
+    ]);
+    if (!sessionId) return;
+
+    await this.saveIfStarted();
+    await this.conversation.loadSession(sessionId);
+    displaySuccess('Conversation loaded');
+    this.displayConversation();
   }
 }
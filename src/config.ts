@@ -1,40 +1,108 @@
 import Conf from 'conf';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { ConfigError } from './errors.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+export const DEFAULT_PROFILE = 'cerebras';
+export const DEFAULT_BASE_URL = 'https://api.cerebras.ai/v1';
+export const DEFAULT_MODEL = 'llama3.1-8b';
+
+/**
+ * Connection settings for an OpenAI-compatible endpoint. Unset fields fall
+ * back to the top-level settings used by the built-in Cerebras profile.
+ */
+export interface ProviderProfile {
+  baseURL?: string;
+  apiKey?: string;
+  model?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Price per million tokens, in USD.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface ResolvedProfile {
+  name: string;
+  baseURL: string;
+  apiKey?: string;
+  model: string;
+  headers: Record<string, string>;
+}
+
 interface ConfigSchema {
   apiKey?: string;
   model?: string;
   maxTokens?: number;
   temperature?: number;
   conversationHistory?: boolean;
+  toolsEnabled?: boolean;
+  maxRetries?: number;
+  maxRetryDelay?: number;
+  showUsage?: boolean;
+  prices?: Record<string, ModelPrice>;
+  contextStrategy?: 'truncate' | 'summarize';
+  contextSizes?: Record<string, number>;
   theme?: 'default' | 'dark' | 'light' | 'colorful';
+  profiles?: Record<string, ProviderProfile>;
+  activeProfile?: string;
+  autoTitle?: boolean;
+  // Model that names conversations; the chat model when unset
+  titleModel?: string;
+  // Directory the file tools are confined to; the current directory when unset
+  workspaceRoot?: string;
+  // Approval of commands the model wants to run
+  shellPolicy?: 'ask' | 'allowlist' | 'deny';
+  // Commands run without asking under the allowlist policy; "*" matches any text
+  shellAllowlist?: string[];
+  // Milliseconds before a command is killed
+  shellTimeout?: number;
+  // Characters of command output kept for the model
+  shellMaxOutput?: number;
 }
 
 export class Config {
   private store: Conf<ConfigSchema>;
+  // Selected with --profile or /profile; not persisted
+  private profileOverride?: string;
+  // Settings from a prompt template; not persisted
+  private overrides: Partial<ConfigSchema> = {};
 
   constructor() {
     this.store = new Conf<ConfigSchema>({
       projectName: 'cere-cli',
       defaults: {
-        model: 'llama3.1-8b',
+        model: DEFAULT_MODEL,
         maxTokens: 1024,
         temperature: 0.7,
         conversationHistory: true,
-        theme: 'colorful'
+        toolsEnabled: true,
+        maxRetries: 3,
+        maxRetryDelay: 30000,
+        showUsage: true,
+        contextStrategy: 'truncate',
+        theme: 'colorful',
+        autoTitle: true,
+        shellPolicy: 'ask',
+        shellTimeout: 60000,
+        shellMaxOutput: 32 * 1024
       }
     });
   }
 
   get(key: keyof ConfigSchema): any {
-    return this.store.get(key);
+    return key in this.overrides ? this.overrides[key] : this.store.get(key);
   }
 
   set(key: keyof ConfigSchema, value: any): void {
+    delete this.overrides[key];
     this.store.set(key, value);
   }
 
@@ -53,6 +121,87 @@ export class Config {
   getAll(): ConfigSchema {
     return this.store.store;
   }
+
+  getProfiles(): Record<string, ProviderProfile> {
+    return this.store.get('profiles') || {};
+  }
+
+  getProfileName(): string {
+    return this.profileOverride || this.store.get('activeProfile') || DEFAULT_PROFILE;
+  }
+
+  getProfile(name: string = this.getProfileName()): ResolvedProfile {
+    if (name === DEFAULT_PROFILE) {
+      return {
+        name,
+        baseURL: DEFAULT_BASE_URL,
+        apiKey: this.store.get('apiKey'),
+        model: this.store.get('model') || DEFAULT_MODEL,
+        headers: {}
+      };
+    }
+
+    const profile = this.getProfiles()[name];
+    if (!profile) {
+      throw new ConfigError(`Unknown profile: ${name}`);
+    }
+
+    return {
+      name,
+      baseURL: profile.baseURL || DEFAULT_BASE_URL,
+      apiKey: profile.apiKey,
+      model: profile.model || this.store.get('model') || DEFAULT_MODEL,
+      headers: profile.headers || {}
+    };
+  }
+
+  setProfile(name: string, profile: ProviderProfile): void {
+    this.store.set('profiles', { ...this.getProfiles(), [name]: profile });
+  }
+
+  deleteProfile(name: string): void {
+    const { [name]: _removed, ...profiles } = this.getProfiles();
+    this.store.set('profiles', profiles);
+
+    if (this.store.get('activeProfile') === name) {
+      this.store.delete('activeProfile');
+    }
+  }
+
+  /**
+   * Switch profiles for the current process only.
+   */
+  useProfile(name: string): void {
+    this.getProfile(name);
+    this.profileOverride = name;
+  }
+
+  /**
+   * Use settings for the current process only. Setting a value for real
+   * replaces its override.
+   */
+  useSettings(settings: Partial<ConfigSchema>): void {
+    Object.entries(settings).forEach(([key, value]) => {
+      if (value !== undefined) this.overrides[key as keyof ConfigSchema] = value as any;
+    });
+  }
+
+  getModel(): string {
+    return this.overrides.model || this.getProfile().model;
+  }
+
+  /**
+   * Change the model of the active profile.
+   */
+  setModel(model: string): void {
+    delete this.overrides.model;
+    const name = this.getProfileName();
+    if (name === DEFAULT_PROFILE) {
+      this.store.set('model', model);
+    } else {
+      this.setProfile(name, { ...this.getProfiles()[name], model });
+    }
+  }
 }
 
 export const config = new Config();
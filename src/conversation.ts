@@ -1,17 +1,243 @@
-import { ChatMessage } from './api.js';
+import { ChatMessage, MessageMetadata, Usage } from './api.js';
 import { config } from './config.js';
+import { ConfigError } from './errors.js';
+import { MESSAGE_ROLES, SearchIndex } from './search.js';
+import { estimateMessagesTokens, getContextSize } from './tokens.js';
+import { addUsage, emptyUsage } from './usage.js';
+import { formatMessage, formatTimestamp, getTheme, renderMarkdown, truncateString } from './utils.js';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import { randomUUID } from 'crypto';
 
+export interface MessageNode {
+  id: string;
+  parentId: string | null;
+  message: ChatMessage;
+}
+
+export interface Branch {
+  id: string;
+  name: string;
+  // Last message on the branch, or null for an empty branch
+  headId: string | null;
+  createdAt: string;
+}
+
+export interface ConversationTree {
+  nodes: MessageNode[];
+  branches: Branch[];
+  currentBranch: string;
+}
+
+export interface SessionData {
+  id: string;
+  date: string;
+  // Messages of the current branch, so flat readers keep working
+  messages: ChatMessage[];
+  usage?: Usage;
+  tree?: ConversationTree;
+  title?: string;
+  tags?: string[];
+  // Settings in use when the session was last saved
+  settings?: SessionSettings;
+}
+
+export interface SessionSettings {
+  profile: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  date: string;
+  title?: string;
+  tags: string[];
+  model?: string;
+  // Start of the first user message
+  preview?: string;
+  messageCount: number;
+}
+
+export interface BranchInfo {
+  id: string;
+  name: string;
+  current: boolean;
+  messageCount: number;
+  lastMessage?: string;
+}
+
+export interface ContextWindow {
+  // Messages to send, with older turns dropped or summarized as needed
+  messages: ChatMessage[];
+  contextSize: number;
+  reservedTokens: number;
+  estimatedTokens: number;
+  droppedMessages: number;
+  summarized: boolean;
+}
+
+export interface HistoryFilters {
+  tag?: string;
+  model?: string;
+  since?: Date;
+  until?: Date;
+  // Matched against the title and the first message
+  text?: string;
+}
+
+export type Summarizer = (messages: ChatMessage[], maxTokens: number) => Promise<string>;
+
+/**
+ * Whether a tree read from a file can be loaded: node ids are unique, every
+ * parent and branch head is a node of the tree, parent links end at a root
+ * and the current branch exists.
+ */
+export function isValidTree(tree: any): tree is ConversationTree {
+  if (!tree || typeof tree !== 'object' || !Array.isArray(tree.nodes) || !Array.isArray(tree.branches)) {
+    return false;
+  }
+
+  const parents = new Map<string, string | null>();
+  for (const node of tree.nodes) {
+    if (!node || typeof node.id !== 'string' || parents.has(node.id)) return false;
+    if (node.parentId !== null && typeof node.parentId !== 'string') return false;
+    const message = node.message;
+    if (!message || !MESSAGE_ROLES.includes(message.role) || typeof message.content !== 'string') return false;
+    parents.set(node.id, node.parentId);
+  }
+
+  for (const id of parents.keys()) {
+    const seen = new Set<string>();
+    for (let current: string | null = id; current !== null; current = parents.get(current)!) {
+      if (seen.has(current) || !parents.has(current)) return false;
+      seen.add(current);
+    }
+  }
+
+  const branchIds = new Set<string>();
+  for (const branch of tree.branches) {
+    if (!branch || typeof branch.id !== 'string' || typeof branch.name !== 'string' || branchIds.has(branch.id)) return false;
+    if (branch.headId !== null && !parents.has(branch.headId)) return false;
+    branchIds.add(branch.id);
+  }
+  return branchIds.has(tree.currentBranch);
+}
+
+/**
+ * Every message saved in a session across all of its branches. Sessions
+ * written before branching existed only have the flat `messages` list.
+ */
+export function getSessionMessages(session: SessionData): ChatMessage[] {
+  return session.tree && isValidTree(session.tree) ? session.tree.nodes.map(node => node.message) : session.messages;
+}
+
+const PREVIEW_LENGTH = 80;
+
+export function getSessionPreview(session: SessionData): string | undefined {
+  const first = session.messages.find(message => message.role === 'user' && message.content);
+  return first?.content.replace(/\s+/g, ' ').trim().substring(0, PREVIEW_LENGTH);
+}
+
+export function summarizeSession(session: SessionData): SessionSummary {
+  // Sessions saved before settings were recorded still name the model on replies
+  const lastModel = session.messages.map(message => message.metadata?.model).filter(Boolean).at(-1);
+  return {
+    id: session.id,
+    date: session.date,
+    title: session.title,
+    tags: session.tags || [],
+    model: session.settings?.model || lastModel,
+    preview: getSessionPreview(session),
+    messageCount: session.messages.length
+  };
+}
+
+export function filterSessions(sessions: SessionSummary[], filters: HistoryFilters): SessionSummary[] {
+  const text = filters.text?.toLowerCase();
+  return sessions.filter(session => {
+    if (filters.tag && !session.tags.includes(filters.tag.toLowerCase())) return false;
+    if (filters.model && session.model !== filters.model) return false;
+    if (filters.since && new Date(session.date) < filters.since) return false;
+    if (filters.until && new Date(session.date) > filters.until) return false;
+    if (text && !`${session.title || ''}\n${session.preview || ''}`.toLowerCase().includes(text)) return false;
+    return true;
+  });
+}
+
+/**
+ * One line per session: title (or the first message), date, size, model
+ * and tags.
+ */
+export function describeSession(session: SessionSummary): string {
+  const heading = session.title || (session.preview ? `"${truncateString(session.preview, 50)}"` : '(empty)');
+  const details = [
+    formatTimestamp(new Date(session.date)),
+    `${session.messageCount} messages`,
+    session.model
+  ].filter(Boolean).join(' · ');
+  const tags = session.tags.length > 0 ? ` [${session.tags.join(', ')}]` : '';
+  return `${heading} - ${details}${tags}`;
+}
+
+export function printSessions(sessions: SessionSummary[]): void {
+  const theme = getTheme();
+  console.log(theme.info('\n🗂  Conversations:\n'));
+  sessions.forEach(session => {
+    const tags = session.tags.length > 0 ? theme.system(` [${session.tags.join(', ')}]`) : '';
+    console.log(`  ${theme.user(session.title || '(untitled)')}${tags}`);
+    console.log(theme.system(`    ${[
+      session.id,
+      formatTimestamp(new Date(session.date)),
+      `${session.messageCount} messages`,
+      session.model
+    ].filter(Boolean).join(' · ')}`));
+    if (session.preview) {
+      console.log(theme.system(`    > ${truncateString(session.preview, PREVIEW_LENGTH)}`));
+    }
+  });
+  console.log();
+}
+
+/**
+ * Print the user and assistant messages of a conversation as in chat.
+ */
+export function printTranscript(messages: ChatMessage[]): void {
+  messages.forEach(message => {
+    if (message.role === 'user' || (message.role === 'assistant' && message.content)) {
+      console.log(formatMessage(message.role, renderMarkdown(message.content)));
+    }
+  });
+}
+
+/**
+ * Conversations are stored as a tree of messages. Each branch points at its
+ * last message and the current branch is the path from the root to it, which
+ * is what `getMessages` returns and what gets sent to the model.
+ */
 export class ConversationManager {
+  private static readonly SUMMARY_MAX_TOKENS = 1024;
+
+  // Current branch, root first
   private messages: ChatMessage[] = [];
+  private nodes: Map<string, MessageNode> = new Map();
+  private branches: Branch[] = [];
+  private currentBranchId = '';
   private sessionId: string;
   private historyDir: string;
+  private searchIndex: SearchIndex;
+  private title?: string;
+  private tags: string[] = [];
+  // Summary of the oldest `count` non-system messages, reused between turns
+  private contextSummary?: { count: number; content: string };
 
   constructor() {
     this.sessionId = new Date().toISOString().replace(/[:.]/g, '-');
     this.historyDir = path.join(os.homedir(), '.cere-cli', 'history');
+    this.searchIndex = new SearchIndex(this.historyDir);
+    this.resetTree();
   }
 
   async initialize(): Promise<void> {
@@ -21,6 +247,15 @@ export class ConversationManager {
   }
 
   addMessage(message: ChatMessage): void {
+    const branch = this.getCurrentBranch();
+    const node: MessageNode = {
+      id: randomUUID(),
+      parentId: branch.headId,
+      message
+    };
+
+    this.nodes.set(node.id, node);
+    branch.headId = node.id;
     this.messages.push(message);
   }
 
@@ -29,61 +264,513 @@ export class ConversationManager {
   }
 
   clear(): void {
+    this.resetTree();
+    this.title = undefined;
+    this.tags = [];
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  getTitle(): string | undefined {
+    return this.title;
+  }
+
+  setTitle(title: string): void {
+    this.title = title.trim() || undefined;
+  }
+
+  getTags(): string[] {
+    return [...this.tags];
+  }
+
+  /**
+   * Returns false if the conversation already has the tag.
+   */
+  addTag(tag: string): boolean {
+    const normalized = tag.trim().toLowerCase();
+    if (!normalized || this.tags.includes(normalized)) return false;
+    this.tags.push(normalized);
+    return true;
+  }
+
+  removeTag(tag: string): boolean {
+    const index = this.tags.indexOf(tag.trim().toLowerCase());
+    if (index === -1) return false;
+    this.tags.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Total tokens used by the assistant replies in this conversation,
+   * across all branches.
+   */
+  getUsage(): Usage {
+    return this.getAllMessages().reduce(
+      (total, message) => addUsage(total, message.metadata?.usage),
+      emptyUsage()
+    );
+  }
+
+  /**
+   * Messages of every branch, in no particular order.
+   */
+  getAllMessages(): ChatMessage[] {
+    return Array.from(this.nodes.values()).map(node => node.message);
+  }
+
+  getCurrentBranch(): Branch {
+    return this.branches.find(branch => branch.id === this.currentBranchId)!;
+  }
+
+  listBranches(): BranchInfo[] {
+    return this.branches.map(branch => {
+      const path = this.getPath(branch.headId);
+      const last = path[path.length - 1]?.message;
+      return {
+        id: branch.id,
+        name: branch.name,
+        current: branch.id === this.currentBranchId,
+        messageCount: path.length,
+        lastMessage: last?.content
+      };
+    });
+  }
+
+  /**
+   * Start a new branch at the current point and switch to it.
+   */
+  fork(name?: string): Branch {
+    const branch = this.createBranch(name || this.nextBranchName('fork'), this.getCurrentBranch().headId);
+    this.currentBranchId = branch.id;
+    return branch;
+  }
+
+  switchBranch(nameOrId: string): Branch {
+    const branch = this.branches.find(b => b.id === nameOrId || b.name === nameOrId);
+    if (!branch) {
+      throw new Error(`Unknown branch: ${nameOrId}`);
+    }
+
+    this.currentBranchId = branch.id;
+    this.refreshMessages();
+    return branch;
+  }
+
+  /**
+   * User messages of the current branch, numbered from 1 as used by `/edit`.
+   */
+  getUserMessages(): Array<{ number: number; content: string }> {
+    return this.messages
+      .filter(message => message.role === 'user')
+      .map((message, index) => ({ number: index + 1, content: message.content }));
+  }
+
+  /**
+   * Start a new branch just before the `number`-th user message, so it can be
+   * rewritten and answered again. Returns the original message content.
+   */
+  branchBeforeUserMessage(number: number, name?: string): string {
+    const path = this.getPath(this.getCurrentBranch().headId);
+    const userNodes = path.filter(node => node.message.role === 'user');
+    const node = userNodes[number - 1];
+    if (!node) {
+      throw new Error(`No user message #${number}`);
+    }
+
+    const branch = this.createBranch(name || this.nextBranchName('edit'), node.parentId);
+    this.currentBranchId = branch.id;
+    this.refreshMessages();
+    return node.message.content;
+  }
+
+  /**
+   * Work out which messages fit in the model's context window, keeping every
+   * system message and as many recent turns as possible. The latest turn is
+   * always kept. `reservedTokens` covers the reply and tool definitions.
+   */
+  getContextWindow(model: string, reservedTokens: number): ContextWindow {
+    const { system, dropped, kept, contextSize } = this.selectContext(model, reservedTokens, 0);
+    const messages = [...system, ...kept];
+
+    return {
+      messages,
+      contextSize,
+      reservedTokens,
+      estimatedTokens: estimateMessagesTokens(messages),
+      droppedMessages: dropped.length,
+      summarized: false
+    };
+  }
+
+  /**
+   * Build the messages for the next request using the configured strategy.
+   * With "summarize", turns that no longer fit are condensed into a system
+   * message; if summarizing fails they are dropped instead.
+   */
+  async prepareContext(model: string, reservedTokens: number, summarize?: Summarizer): Promise<ContextWindow> {
+    const window = this.getContextWindow(model, reservedTokens);
+    if (window.droppedMessages === 0 || config.get('contextStrategy') !== 'summarize' || !summarize) {
+      return window;
+    }
+
+    const summaryTokens = Math.min(
+      ConversationManager.SUMMARY_MAX_TOKENS,
+      Math.floor(window.contextSize / 8)
+    );
+    const { system, dropped, kept } = this.selectContext(model, reservedTokens, summaryTokens);
+
+    let summary: string;
+    try {
+      summary = await this.summarizeMessages(dropped, summaryTokens, summarize);
+    } catch (error) {
+      return window;
+    }
+
+    const messages: ChatMessage[] = [
+      ...system,
+      { role: 'system', content: `Summary of the earlier conversation:\n${summary}` },
+      ...kept
+    ];
+
+    return {
+      ...window,
+      messages,
+      estimatedTokens: estimateMessagesTokens(messages),
+      droppedMessages: dropped.length,
+      summarized: true
+    };
+  }
+
+  private async summarizeMessages(
+    messages: ChatMessage[],
+    maxTokens: number,
+    summarize: Summarizer
+  ): Promise<string> {
+    const cached = this.contextSummary;
+    if (cached && cached.count === messages.length) {
+      return cached.content;
+    }
+
+    // Extend the previous summary with the newly dropped messages
+    const input = cached && cached.count < messages.length
+      ? [
+          { role: 'system' as const, content: `Summary so far:\n${cached.content}` },
+          ...messages.slice(cached.count)
+        ]
+      : messages;
+
+    const content = await summarize(input, maxTokens);
+    this.contextSummary = { count: messages.length, content };
+    return content;
+  }
+
+  /**
+   * Remove the last user message and everything after it from the current
+   * branch. Returns the removed messages.
+   */
+  undo(): ChatMessage[] {
+    const path = this.getPath(this.getCurrentBranch().headId);
+    const index = path.map(node => node.message.role).lastIndexOf('user');
+    if (index === -1) return [];
+
+    return this.truncateBranch(path, index);
+  }
+
+  /**
+   * Remove the replies to the last user message so it can be answered
+   * again. Returns the removed messages.
+   */
+  removeLastReply(): ChatMessage[] {
+    const path = this.getPath(this.getCurrentBranch().headId);
+    const index = path.map(node => node.message.role).lastIndexOf('user');
+    if (index === -1) return [];
+
+    return this.truncateBranch(path, index + 1);
+  }
+
+  /**
+   * Merge metadata into the last message of the current branch.
+   */
+  updateLastMessageMetadata(metadata: MessageMetadata): void {
+    const last = this.messages[this.messages.length - 1];
+    if (last) {
+      last.metadata = { ...last.metadata, ...metadata };
+    }
+  }
+
+  /**
+   * Cut the current branch so it ends before `path[index]`. Messages that no
+   * other branch still uses are deleted.
+   */
+  private truncateBranch(path: MessageNode[], index: number): ChatMessage[] {
+    this.getCurrentBranch().headId = index > 0 ? path[index - 1].id : null;
+
+    const reachable = new Set<string>();
+    for (const branch of this.branches) {
+      this.getPath(branch.headId).forEach(node => reachable.add(node.id));
+    }
+    for (const id of this.nodes.keys()) {
+      if (!reachable.has(id)) {
+        this.nodes.delete(id);
+      }
+    }
+
+    this.refreshMessages();
+    return path.slice(index).map(node => node.message);
+  }
+
+  private createBranch(name: string, headId: string | null): Branch {
+    if (this.branches.some(branch => branch.name === name)) {
+      throw new Error(`Branch already exists: ${name}`);
+    }
+
+    const branch: Branch = {
+      id: randomUUID(),
+      name,
+      headId,
+      createdAt: new Date().toISOString()
+    };
+    this.branches.push(branch);
+    return branch;
+  }
+
+  private nextBranchName(prefix: string): string {
+    let number = 1;
+    while (this.branches.some(branch => branch.name === `${prefix}-${number}`)) {
+      number++;
+    }
+    return `${prefix}-${number}`;
+  }
+
+  private getPath(headId: string | null): MessageNode[] {
+    const path: MessageNode[] = [];
+    let node = headId ? this.nodes.get(headId) : undefined;
+    while (node) {
+      path.unshift(node);
+      node = node.parentId ? this.nodes.get(node.parentId) : undefined;
+    }
+    return path;
+  }
+
+  private refreshMessages(): void {
+    this.messages = this.getPath(this.getCurrentBranch().headId).map(node => node.message);
+    this.contextSummary = undefined;
+  }
+
+  private resetTree(): void {
+    this.nodes = new Map();
+    this.branches = [];
+    this.currentBranchId = this.createBranch('main', null).id;
     this.messages = [];
+    this.contextSummary = undefined;
   }
 
-  async saveSession(): Promise<void> {
-    if (!config.get('conversationHistory')) return;
+  private loadTree(sessionData: SessionData): void {
+    if (!sessionData.tree || !isValidTree(sessionData.tree)) {
+      // Flat session from before branching, or a damaged tree: a single
+      // main branch with the saved messages
+      this.resetTree();
+      sessionData.messages.forEach(message => this.addMessage(message));
+      return;
+    }
+
+    const { nodes, branches, currentBranch } = sessionData.tree;
+    this.nodes = new Map(nodes.map(node => [node.id, node]));
+    this.branches = branches;
+    this.currentBranchId = currentBranch;
+    this.refreshMessages();
+  }
+
+  private selectContext(model: string, reservedTokens: number, extraTokens: number) {
+    const contextSize = getContextSize(model);
+    const system = this.messages.filter(message => message.role === 'system');
+    const rest = this.messages.filter(message => message.role !== 'system');
 
-    const sessionFile = path.join(this.historyDir, `${this.sessionId}.json`);
-    const sessionData = {
+    let budget = contextSize - reservedTokens - extraTokens - estimateMessagesTokens(system);
+
+    // A turn is a user message and the assistant and tool messages after it
+    const turnStarts = rest
+      .map((message, index) => (index === 0 || message.role === 'user' ? index : -1))
+      .filter(index => index !== -1);
+
+    let keepFrom = rest.length;
+    for (let i = turnStarts.length - 1; i >= 0; i--) {
+      const cost = estimateMessagesTokens(rest.slice(turnStarts[i], keepFrom));
+      if (cost > budget && keepFrom < rest.length) break;
+      budget -= cost;
+      keepFrom = turnStarts[i];
+    }
+
+    return {
+      system,
+      dropped: rest.slice(0, keepFrom),
+      kept: rest.slice(keepFrom),
+      contextSize
+    };
+  }
+
+  /**
+   * The conversation as it is saved, with the settings currently in use.
+   */
+  getSessionData(): SessionData {
+    return {
       id: this.sessionId,
       date: new Date().toISOString(),
-      messages: this.messages
+      messages: this.messages,
+      usage: this.getUsage(),
+      tree: {
+        nodes: Array.from(this.nodes.values()),
+        branches: this.branches,
+        currentBranch: this.currentBranchId
+      },
+      title: this.title,
+      tags: this.tags,
+      settings: {
+        profile: config.getProfileName(),
+        model: config.getModel(),
+        temperature: config.get('temperature'),
+        maxTokens: config.get('maxTokens')
+      }
     };
+  }
+
+  async saveSession(): Promise<void> {
+    if (!config.get('conversationHistory')) return;
+
+    const sessionFile = this.getSessionFile(this.sessionId);
+    const sessionData = this.getSessionData();
 
     await fs.writeFile(sessionFile, JSON.stringify(sessionData, null, 2));
+
+    try {
+      await this.searchIndex.updateSession(sessionData);
+    } catch (error) {
+      // The index catches up with changed sessions on the next search
+    }
+  }
+
+  private getSessionFile(sessionId: string): string {
+    // Ids are file names; anything else could point outside the history
+    if (!sessionId || sessionId !== path.basename(sessionId)) {
+      throw new ConfigError(`Invalid session id: ${sessionId}`);
+    }
+    return path.join(this.historyDir, `${sessionId}.json`);
+  }
+
+  /**
+   * Store a complete session, such as an imported one. Returns false if a
+   * session with the same id exists and `overwrite` is not set.
+   */
+  async addSession(session: SessionData, overwrite: boolean = false): Promise<boolean> {
+    const sessionFile = this.getSessionFile(session.id);
+    await fs.mkdir(this.historyDir, { recursive: true });
+    try {
+      await fs.writeFile(sessionFile, JSON.stringify(session, null, 2), { flag: overwrite ? 'w' : 'wx' });
+    } catch (error: any) {
+      if (error.code === 'EEXIST') return false;
+      throw error;
+    }
+
+    try {
+      await this.searchIndex.updateSession(session);
+    } catch (error) {
+      // The index catches up with changed sessions on the next search
+    }
+    return true;
+  }
+
+  async readSession(sessionId: string): Promise<SessionData> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.getSessionFile(sessionId), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new ConfigError(`No saved conversation with id ${sessionId}`);
+      }
+      throw error;
+    }
+    return JSON.parse(data);
   }
 
   async loadSession(sessionId: string): Promise<void> {
-    const sessionFile = path.join(this.historyDir, `${sessionId}.json`);
     try {
-      const data = await fs.readFile(sessionFile, 'utf-8');
-      const sessionData = JSON.parse(data);
-      this.messages = sessionData.messages;
+      const sessionData = await this.readSession(sessionId);
+      this.loadTree(sessionData);
       this.sessionId = sessionData.id;
+      this.title = sessionData.title;
+      this.tags = sessionData.tags || [];
     } catch (error) {
+      if (error instanceof ConfigError) throw error;
       throw new Error(`Failed to load session: ${error}`);
     }
   }
 
-  async listSessions(): Promise<Array<{ id: string; date: string; messageCount: number }>> {
-    try {
-      const files = await fs.readdir(this.historyDir);
-      const sessions = [];
-
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.historyDir, file);
-          const data = await fs.readFile(filePath, 'utf-8');
-          const sessionData = JSON.parse(data);
-          sessions.push({
-            id: sessionData.id,
-            date: sessionData.date,
-            messageCount: sessionData.messages.length
-          });
-        }
-      }
+  async listSessions(): Promise<SessionSummary[]> {
+    const sessions = await this.loadAllSessions();
+    return sessions
+      .map(summarizeSession)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
 
-      return sessions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  async getLatestSessionId(): Promise<string | undefined> {
+    return (await this.listSessions())[0]?.id;
+  }
+
+  /**
+   * Read every saved session, skipping files that cannot be parsed.
+   */
+  async loadAllSessions(): Promise<SessionData[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.historyDir);
     } catch (error) {
       return [];
     }
+
+    const sessions: SessionData[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const data = await fs.readFile(path.join(this.historyDir, file), 'utf-8');
+        sessions.push(JSON.parse(data));
+      } catch (error) {
+        // Skip corrupted sessions
+      }
+    }
+    return sessions;
   }
 
   async deleteSession(sessionId: string): Promise<void> {
-    const sessionFile = path.join(this.historyDir, `${sessionId}.json`);
-    await fs.unlink(sessionFile);
+    try {
+      await fs.unlink(this.getSessionFile(sessionId));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new ConfigError(`No saved conversation with id ${sessionId}`);
+      }
+      throw error;
+    }
+
+    try {
+      await this.searchIndex.removeSession(sessionId);
+    } catch (error) {
+      // Missing sessions are dropped from the index on the next search
+    }
+  }
+
+  /**
+   * Delete sessions last saved before `cutoff`. With `dryRun` nothing is
+   * deleted. Returns the sessions that were (or would be) deleted.
+   */
+  async pruneSessions(cutoff: Date, dryRun: boolean = false): Promise<SessionSummary[]> {
+    const old = (await this.listSessions()).filter(session => new Date(session.date) < cutoff);
+    if (!dryRun) {
+      for (const session of old) {
+        await this.deleteSession(session.id);
+      }
+    }
+    return old;
   }
 
   getLastUserMessage(): string | undefined {
@@ -0,0 +1,157 @@
+export interface DiffLine {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * One row of a side-by-side diff. The marker follows `diff -y`: a space for
+ * unchanged lines, "|" for changed ones, "<" for removed and ">" for added.
+ */
+export interface SideBySideRow {
+  left: string;
+  right: string;
+  marker: ' ' | '|' | '<' | '>';
+}
+
+/**
+ * Line diff based on the longest common subsequence. Replies are short
+ * enough for the quadratic table.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText ? oldText.split('\n') : [];
+  const b = newText ? newText.split('\n') : [];
+
+  // lengths[i][j]: common subsequence length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+function wrap(text: string, width: number): string[] {
+  if (text.length <= width) return [text];
+  const chunks: string[] = [];
+  for (let start = 0; start < text.length; start += width) {
+    chunks.push(text.substring(start, start + width));
+  }
+  return chunks;
+}
+
+/**
+ * Lay out a diff in two columns of the given width. Runs of removed lines
+ * followed by added lines are paired up as changes, and long lines wrap
+ * onto rows with the same marker.
+ */
+export function sideBySide(oldText: string, newText: string, width: number): SideBySideRow[] {
+  const lines = diffLines(oldText, newText);
+  const pairs: Array<{ left?: string; right?: string; marker: SideBySideRow['marker'] }> = [];
+
+  for (let index = 0; index < lines.length; ) {
+    if (lines[index].type === 'same') {
+      pairs.push({ left: lines[index].text, right: lines[index].text, marker: ' ' });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++].text);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++].text);
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      pairs.push({ left, right, marker: left === undefined ? '>' : right === undefined ? '<' : '|' });
+    }
+  }
+
+  const rows: SideBySideRow[] = [];
+  for (const pair of pairs) {
+    const left = pair.left === undefined ? [] : wrap(pair.left, width);
+    const right = pair.right === undefined ? [] : wrap(pair.right, width);
+    for (let k = 0; k < Math.max(left.length, right.length, 1); k++) {
+      rows.push({
+        left: left[k] || '',
+        right: right[k] || '',
+        marker: pair.marker
+      });
+    }
+  }
+  return rows;
+}
+
+export function formatSideBySide(rows: SideBySideRow[], width: number): string {
+  return rows.map(row => `${row.left.padEnd(width)} ${row.marker} ${row.right}`.trimEnd()).join('\n');
+}
+
+/**
+ * A diff in unified format, with `context` unchanged lines around each
+ * change and a "@@ -start,count +start,count @@" header per hunk.
+ */
+export function formatUnifiedDiff(oldText: string, newText: string, context: number = 3): string {
+  // A final newline ends the last line rather than starting another
+  const lines = diffLines(oldText.replace(/\n$/, ''), newText.replace(/\n$/, ''));
+  const changed = lines.map(line => line.type !== 'same');
+  const output: string[] = [];
+
+  // Line numbers in the old and new text before each diff line
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (line.type !== 'added') oldLine++;
+    if (line.type !== 'removed') newLine++;
+  }
+
+  for (let index = 0; index < lines.length; ) {
+    if (!changed[index]) {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is within reach of its context
+    const start = Math.max(0, index - context);
+    let end = index;
+    while (end < lines.length) {
+      const next = changed.indexOf(true, end + 1);
+      if (next === -1 || next - end > context * 2) break;
+      end = next;
+    }
+    end = Math.min(lines.length - 1, end + context);
+
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter(line => line.type !== 'added').length;
+    const newCount = hunk.filter(line => line.type !== 'removed').length;
+    output.push(`@@ -${oldCount ? oldNumbers[start] : oldNumbers[start] - 1},${oldCount} +${newCount ? newNumbers[start] : newNumbers[start] - 1},${newCount} @@`);
+    hunk.forEach(line => output.push(`${line.type === 'same' ? ' ' : line.type === 'removed' ? '-' : '+'}${line.text}`));
+    index = end + 1;
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,47 @@
+/**
+ * The API rejected a request or failed while streaming a response.
+ */
+export class APIError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'APIError';
+  }
+}
+
+/**
+ * Missing or invalid settings, such as an API key or an unknown profile.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * A structured reply that still did not match its JSON schema after retries.
+ */
+export class SchemaValidationError extends Error {
+  constructor(message: string, readonly errors: string[]) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+export const EXIT_CODES = {
+  error: 1,
+  config: 2,
+  api: 3,
+  schema: 4,
+  // Conventional code for a process stopped by SIGINT
+  interrupted: 130
+} as const;
+
+export function getExitCode(error: unknown): number {
+  if (error instanceof ConfigError) return EXIT_CODES.config;
+  if (error instanceof APIError) return EXIT_CODES.api;
+  if (error instanceof SchemaValidationError) return EXIT_CODES.schema;
+  // Network failures never reach the point of getting an API response
+  if ((error as any)?.isAxiosError) return EXIT_CODES.api;
+  return EXIT_CODES.error;
+}
@@ -0,0 +1,362 @@
+import path from 'path';
+import hljs from 'highlight.js';
+import { Marked } from 'marked';
+import { ChatMessage, MessageMetadata, Usage } from './api.js';
+import { SessionData } from './conversation.js';
+import { addUsage } from './usage.js';
+
+export type ExportFormat = 'md' | 'json' | 'txt' | 'html' | 'jsonl';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'txt', 'html', 'jsonl'];
+
+export function getExportFormat(filePath: string): ExportFormat | undefined {
+  const extension = path.extname(filePath).substring(1).toLowerCase();
+  if (extension === 'markdown') return 'md';
+  if (extension === 'htm') return 'html';
+  return EXPORT_FORMATS.find(format => format === extension);
+}
+
+interface ToolCallInfo {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
+function getToolCalls(message: ChatMessage): ToolCallInfo[] {
+  return (message.tool_calls || []).map(call => ({
+    id: call.id,
+    name: call.function?.name || 'tool',
+    arguments: call.function?.arguments || ''
+  }));
+}
+
+/**
+ * Name of the tool whose result a tool message holds, from the call that
+ * asked for it.
+ */
+function getToolName(messages: ChatMessage[], message: ChatMessage): string {
+  for (const other of messages) {
+    const call = getToolCalls(other).find(call => call.id && call.id === message.tool_call_id);
+    if (call) return call.name;
+  }
+  return 'tool';
+}
+
+function getTotalUsage(session: SessionData): Usage | undefined {
+  return session.usage?.total_tokens
+    ? session.usage
+    : session.messages.reduce<Usage | undefined>((total, message) => addUsage(total, message.metadata?.usage), undefined);
+}
+
+function formatTime(timestamp: string | undefined): string | undefined {
+  if (!timestamp) return undefined;
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+/**
+ * Model, time, sampling settings and tokens of a message, in one line.
+ */
+export function describeMessageMetadata(metadata: MessageMetadata | undefined): string {
+  if (!metadata) return '';
+  return [
+    metadata.model,
+    formatTime(metadata.timestamp),
+    metadata.temperature !== undefined && `temperature ${metadata.temperature}`,
+    metadata.maxTokens !== undefined && `max tokens ${metadata.maxTokens}`,
+    metadata.usage && `${metadata.usage.prompt_tokens} prompt + ${metadata.usage.completion_tokens} completion tokens`,
+    metadata.truncated && 'interrupted'
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Title, date, settings and total tokens of a session, as label/value pairs.
+ */
+function describeSession(session: SessionData): Array<[string, string]> {
+  const usage = getTotalUsage(session);
+  const settings = session.settings;
+  const rows: Array<[string, string | undefined]> = [
+    ['Date', formatTime(session.date)],
+    ['Session', session.id],
+    ['Model', settings?.model],
+    ['Profile', settings?.profile],
+    ['Temperature', settings?.temperature?.toString()],
+    ['Max tokens', settings?.maxTokens?.toString()],
+    ['Tokens', usage && `${usage.prompt_tokens} prompt + ${usage.completion_tokens} completion = ${usage.total_tokens} total`],
+    ['Tags', session.tags?.length ? session.tags.join(', ') : undefined]
+  ];
+  return rows.filter((row): row is [string, string] => !!row[1]);
+}
+
+function formatMarkdown(session: SessionData): string {
+  const messages = session.messages;
+  let content = `# ${session.title || 'Conversation Export'}\n\n`;
+  content += describeSession(session).map(([label, value]) => `**${label}:** ${value}`).join('  \n');
+  content += '\n\n---\n\n';
+
+  messages.forEach(msg => {
+    const meta = describeMessageMetadata(msg.metadata);
+    const metaLine = meta ? `<sub>${meta}</sub>\n\n` : '';
+
+    if (msg.role === 'system') {
+      content += `## System Prompt\n\n${msg.content}\n\n---\n\n`;
+    } else if (msg.role === 'user') {
+      content += `### 👤 You\n\n${metaLine}${msg.content}\n\n`;
+    } else if (msg.role === 'assistant') {
+      content += `### 🤖 AI\n\n${metaLine}${msg.content ? `${msg.content}\n\n` : ''}`;
+      getToolCalls(msg).forEach(call => {
+        content += `**Tool call:** \`${call.name}(${call.arguments})\`\n\n`;
+      });
+      content += '---\n\n';
+    } else if (msg.role === 'tool') {
+      content += `### 🔧 Tool: ${getToolName(messages, msg)}\n\n${metaLine}\`\`\`\n${msg.content}\n\`\`\`\n\n---\n\n`;
+    }
+  });
+  return content;
+}
+
+function formatText(session: SessionData): string {
+  const messages = session.messages;
+  let content = `Conversation Export${session.title ? `: ${session.title}` : ''}\n`;
+  content += describeSession(session).map(([label, value]) => `${label}: ${value}`).join('\n') + '\n';
+  content += `${'='.repeat(50)}\n\n`;
+
+  messages.forEach(msg => {
+    const role = msg.role === 'tool'
+      ? `Tool (${getToolName(messages, msg)})`
+      : msg.role.charAt(0).toUpperCase() + msg.role.slice(1);
+    const meta = describeMessageMetadata(msg.metadata);
+    content += `${role}${meta ? ` [${meta}]` : ''}:\n`;
+    if (msg.content) content += `${msg.content}\n`;
+    getToolCalls(msg).forEach(call => {
+      content += `-> ${call.name}(${call.arguments})\n`;
+    });
+    content += `\n${'-'.repeat(30)}\n\n`;
+  });
+  return content;
+}
+
+function formatJSON(session: SessionData): string {
+  return JSON.stringify({
+    timestamp: new Date().toISOString(),
+    id: session.id,
+    title: session.title,
+    date: session.date,
+    tags: session.tags,
+    settings: session.settings,
+    usage: getTotalUsage(session),
+    messages: session.messages
+  }, null, 2);
+}
+
+/**
+ * One line in the OpenAI chat fine-tuning format. Messages carry only the
+ * fields that format knows; session details and per-message metadata go in
+ * a separate top-level `metadata` object.
+ */
+function formatJSONL(session: SessionData): string {
+  const messages = session.messages.map(({ role, content, tool_calls, tool_call_id }) => ({
+    role,
+    ...(content || !tool_calls?.length ? { content } : {}),
+    ...(tool_calls?.length && { tool_calls }),
+    ...(tool_call_id && { tool_call_id })
+  }));
+
+  return JSON.stringify({
+    messages,
+    metadata: {
+      id: session.id,
+      title: session.title,
+      date: session.date,
+      tags: session.tags,
+      settings: session.settings,
+      usage: getTotalUsage(session),
+      messages: session.messages.map(message => message.metadata || {})
+    }
+  }) + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function highlight(code: string, language?: string): string {
+  try {
+    return language && hljs.getLanguage(language)
+      ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+      : hljs.highlightAuto(code).value;
+  } catch {
+    return escapeHtml(code);
+  }
+}
+
+// Named character references a browser would decode in a URL; any other
+// name makes the URL unsafe, since its meaning cannot be checked here
+const URL_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':',
+  tab: '\t', newline: '\n', nbsp: '\u00a0', sol: '/', num: '#', quest: '?', period: '.'
+};
+const SAFE_SCHEMES = ['http', 'https', 'mailto'];
+
+/**
+ * Whether a link or image URL is safe to put in the export: http(s),
+ * mailto, or relative. Character references are decoded and control
+ * characters and whitespace removed first, as a browser would, so that
+ * "jav&#x61;script:" is caught.
+ */
+function isSafeUrl(href: string): boolean {
+  let unknownEntity = false;
+  const decoded = href
+    // Browsers decode numeric references without ";", named ones only with it
+    .replace(/&(#x[0-9a-f]+;?|#\d+;?|[a-z]+;)/gi, (entity, reference: string) => {
+      const name = reference.replace(/;$/, '');
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+        return code <= 0x10ffff ? String.fromCodePoint(code) : '';
+      }
+      const value = URL_ENTITIES[name.toLowerCase()];
+      if (value === undefined) unknownEntity = true;
+      return value ?? entity;
+    })
+    .replace(/[\u0000-\u0020\u007f-\u00a0]/g, '');
+
+  if (unknownEntity) return false;
+  const scheme = decoded.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || SAFE_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+// Separate from the terminal renderer configured in utils.ts. Raw HTML in
+// messages is shown as text rather than rendered, as are links and images
+// with unsafe URLs.
+const htmlMarked = new Marked({
+  renderer: {
+    code(code: string, infostring: string | undefined) {
+      const language = (infostring || '').split(/\s+/)[0];
+      return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ''}">${highlight(code, language)}</code></pre>\n`;
+    },
+    html(html: string) {
+      return escapeHtml(html);
+    },
+    link(href: string, title: string | null | undefined, text: string) {
+      // The default renderer for safe links
+      return isSafeUrl(href) ? false : text;
+    },
+    image(href: string, title: string | null, text: string) {
+      return isSafeUrl(href) ? false : text;
+    }
+  }
+});
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+h1 { font-size: 1.6rem; margin-bottom: 0.5rem; }
+dl.session { display: grid; grid-template-columns: max-content 1fr; gap: 0.2rem 1rem; font-size: 0.9rem; color: #59636e; }
+dl.session dt { font-weight: 600; }
+dl.session dd { margin: 0; }
+.message { border: 1px solid #d1d9e0; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: #f6f8fa; }
+.message.system { background: #fff8c5; }
+.role { font-weight: 600; }
+.meta { font-size: 0.8rem; color: #59636e; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 0.75rem; overflow-x: auto; }
+.message.user pre { background: #ffffff; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875rem; }
+details { margin: 0.5rem 0; }
+summary { cursor: pointer; color: #59636e; }
+.hljs-comment, .hljs-quote { color: #6e7781; font-style: italic; }
+.hljs-keyword, .hljs-selector-tag, .hljs-type, .hljs-doctag { color: #cf222e; }
+.hljs-string, .hljs-regexp, .hljs-addition, .hljs-meta-string { color: #0a3069; }
+.hljs-number, .hljs-literal, .hljs-symbol, .hljs-bullet { color: #0550ae; }
+.hljs-title, .hljs-section, .hljs-function .hljs-title { color: #8250df; }
+.hljs-built_in, .hljs-builtin-name, .hljs-attr, .hljs-attribute, .hljs-variable, .hljs-template-variable { color: #953800; }
+.hljs-tag, .hljs-name, .hljs-selector-id, .hljs-selector-class { color: #116329; }
+.hljs-deletion { color: #82071e; background: #ffebe9; }
+.hljs-meta { color: #6e7781; }
+.hljs-emphasis { font-style: italic; }
+.hljs-strong { font-weight: 600; }
+`;
+
+function formatHTML(session: SessionData): string {
+  const messages = session.messages;
+  const title = session.title || 'Conversation Export';
+  const render = (text: string) => htmlMarked.parse(text, { async: false }) as string;
+  const meta = (message: ChatMessage) => {
+    const text = describeMessageMetadata(message.metadata);
+    return text ? ` <span class="meta">${escapeHtml(text)}</span>` : '';
+  };
+
+  const sections = messages.map(message => {
+    switch (message.role) {
+      case 'system':
+        return `<details class="message system" open><summary><span class="role">System prompt</span>${meta(message)}</summary>\n${render(message.content)}</details>`;
+
+      case 'user':
+        return `<section class="message user"><div><span class="role">👤 You</span>${meta(message)}</div>\n${render(message.content)}</section>`;
+
+      case 'assistant': {
+        const calls = getToolCalls(message).map(call => {
+          let args = call.arguments;
+          try {
+            args = JSON.stringify(JSON.parse(call.arguments), null, 2);
+          } catch {
+            // Show the arguments as sent
+          }
+          return `<details class="tool-call"><summary>🔧 ${escapeHtml(call.name)}</summary><pre><code class="hljs language-json">${highlight(args, 'json')}</code></pre></details>`;
+        });
+        return `<section class="message assistant"><div><span class="role">🤖 AI</span>${meta(message)}</div>\n${message.content ? render(message.content) : ''}${calls.join('\n')}</section>`;
+      }
+
+      case 'tool':
+        return `<details class="message tool"><summary><span class="role">Result of ${escapeHtml(getToolName(messages, message))}</span>${meta(message)}</summary><pre><code>${escapeHtml(message.content)}</code></pre></details>`;
+    }
+  });
+
+  const details = describeSession(session)
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<dl class="session">${details}</dl>
+</header>
+<main>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * A session in an export format. Every format includes the session's
+ * settings and total tokens, and each message's model, time, sampling
+ * settings and tokens where they were recorded. Tool calls and results are
+ * included; HTML shows them collapsed.
+ */
+export function formatConversation(session: SessionData, format: ExportFormat = 'md'): string {
+  switch (format) {
+    case 'json':
+      return formatJSON(session);
+    case 'jsonl':
+      return formatJSONL(session);
+    case 'txt':
+      return formatText(session);
+    case 'html':
+      return formatHTML(session);
+    default:
+      return formatMarkdown(session);
+  }
+}
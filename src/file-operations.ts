@@ -1,57 +1,409 @@
+import { createReadStream } from 'fs';
 import fs from 'fs/promises';
 import path from 'path';
-import { displayError, displayInfo, displayWarning } from './utils.js';
+import { SessionData } from './conversation.js';
+import { ExportFormat, formatConversation } from './export.js';
+import { expandGlob } from './glob.js';
+import { displayError, displayInfo } from './utils.js';
 
 export interface FileContent {
   path: string;
   content: string;
   size: number;
+  // Encoding the text was decoded from, or "binary" for a summary
   encoding: string;
+  // Which part of the file the content is, when not all of it
+  excerpt?: string;
+  binary?: boolean;
 }
 
+export type SkipReason = 'not-a-file' | 'too-large' | 'binary' | 'unreadable';
+
+export interface FileReadResult {
+  file?: FileContent;
+  skipped?: SkipReason;
+  error?: string;
+}
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DetectedEncoding {
+  encoding: TextEncoding;
+  // Length of the byte order mark to skip
+  bom: number;
+}
+
+/**
+ * 1-based, inclusive line numbers. Without an end the range runs to the end
+ * of the file.
+ */
+export interface LineRange {
+  start: number;
+  end?: number;
+}
+
+export interface ReadOptions {
+  range?: LineRange;
+  // Describe binary files with a hex dump instead of skipping them
+  describeBinary?: boolean;
+  // Read the start and end of files over MAX_FILE_SIZE instead of skipping them
+  truncate?: boolean;
+}
+
+const BOMS: Array<{ bytes: number[]; encoding: TextEncoding }> = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' }
+];
+
+// Leading bytes of common binary formats, for the summary of a binary file
+const MAGIC_NUMBERS: Array<{ bytes: string; offset?: number; type: string }> = [
+  { bytes: '89504e47', type: 'PNG image' },
+  { bytes: 'ffd8ff', type: 'JPEG image' },
+  { bytes: '47494638', type: 'GIF image' },
+  { bytes: '25504446', type: 'PDF document' },
+  { bytes: '504b0304', type: 'ZIP archive (or docx, xlsx, jar)' },
+  { bytes: '1f8b', type: 'gzip archive' },
+  { bytes: '425a68', type: 'bzip2 archive' },
+  { bytes: '377abcaf271c', type: '7-Zip archive' },
+  { bytes: '7573746172', offset: 257, type: 'tar archive' },
+  { bytes: '7f454c46', type: 'ELF executable' },
+  { bytes: '4d5a', type: 'Windows executable' },
+  { bytes: 'cffaedfe', type: 'Mach-O executable' },
+  { bytes: '0061736d', type: 'WebAssembly module' },
+  { bytes: '53514c69746520666f726d6174203300', type: 'SQLite database' },
+  { bytes: '52494646', type: 'RIFF media (WAV, AVI, WebP)' },
+  { bytes: '4f676753', type: 'Ogg media' },
+  { bytes: '494433', type: 'MP3 audio' }
+];
+
 export class FileOperations {
-  private static readonly MAX_FILE_SIZE = 1024 * 1024; // 1MB
-  private static readonly SUPPORTED_EXTENSIONS = [
-    '.txt', '.md', '.json', '.js', '.ts', '.jsx', '.tsx',
-    '.py', '.java', '.c', '.cpp', '.h', '.hpp', '.cs',
-    '.go', '.rs', '.rb', '.php', '.swift', '.kt', '.scala',
-    '.sh', '.bash', '.zsh', '.ps1', '.bat', '.cmd',
-    '.yml', '.yaml', '.xml', '.html', '.css', '.scss',
-    '.sql', '.graphql', '.env', '.ini', '.conf', '.config'
-  ];
-
-  static async readFile(filePath: string): Promise<FileContent | null> {
+  static readonly MAX_FILE_SIZE = 1024 * 1024; // 1MB
+  // Bytes checked for null bytes and control characters to tell binary files apart
+  private static readonly SNIFF_SIZE = 8000;
+  // Bytes read from each end of a file over MAX_FILE_SIZE
+  private static readonly CHUNK_SIZE = 32 * 1024;
+  // Bytes shown in the hex dump of a binary file
+  private static readonly HEX_DUMP_SIZE = 256;
+
+  /**
+   * Split a line range off a path, as in `src/big.ts:100-250`, `src/big.ts:100-`
+   * or `src/big.ts:42`. A path that exists as named is taken as is.
+   */
+  static async parseFileSpec(spec: string): Promise<{ path: string; range?: LineRange }> {
+    const match = spec.match(/^(.+):(\d+)(?:-(\d*))?$/);
+    if (!match) return { path: spec };
+
+    try {
+      await fs.stat(spec);
+      return { path: spec };
+    } catch {
+      // Not a file name with a colon in it
+    }
+
+    const start = Number(match[2]);
+    const end = match[3] === undefined ? start : match[3] === '' ? undefined : Number(match[3]);
+    return { path: match[1], range: { start, end } };
+  }
+
+  /**
+   * Read a text file without printing anything. Files that cannot be used
+   * come back with the reason they were skipped. The encoding is detected
+   * from the content: byte order marks, UTF-16 without one, and text that is
+   * not valid UTF-8, which is read as Windows-1252.
+   */
+  static async tryReadFile(filePath: string, options: ReadOptions = {}): Promise<FileReadResult> {
     try {
       const resolvedPath = path.resolve(filePath);
       const stats = await fs.stat(resolvedPath);
 
       if (!stats.isFile()) {
-        displayError(`Path is not a file: ${filePath}`);
-        return null;
+        return { skipped: 'not-a-file', error: `Path is not a file: ${filePath}` };
       }
 
-      if (stats.size > this.MAX_FILE_SIZE) {
-        displayError(`File too large (${(stats.size / 1024 / 1024).toFixed(2)}MB). Maximum size is 1MB.`);
-        return null;
+      const large = stats.size > this.MAX_FILE_SIZE;
+      if (large && !options.truncate && !options.range) {
+        return {
+          skipped: 'too-large',
+          error: `File too large (${(stats.size / 1024 / 1024).toFixed(2)}MB). Maximum size is 1MB; attach a line range instead, e.g. ${filePath}:1-200`
+        };
       }
 
-      const ext = path.extname(resolvedPath).toLowerCase();
-      if (!this.SUPPORTED_EXTENSIONS.includes(ext) && ext !== '') {
-        displayWarning(`File extension '${ext}' may not be a text file. Attempting to read anyway.`);
+      const buffer = large || options.range
+        ? await this.readBytes(resolvedPath, 0, this.CHUNK_SIZE)
+        : await fs.readFile(resolvedPath);
+      const detected = this.detectEncoding(buffer);
+
+      if (!detected) {
+        if (!options.describeBinary) {
+          return { skipped: 'binary', error: `Not a text file: ${filePath}` };
+        }
+        return {
+          file: {
+            path: resolvedPath,
+            content: this.describeBinary(buffer, stats.size),
+            size: stats.size,
+            encoding: 'binary',
+            binary: true
+          }
+        };
+      }
+
+      if (options.range) {
+        return await this.readLineRange(resolvedPath, stats.size, detected, options.range);
+      }
+      if (large) {
+        return { file: await this.readHeadAndTail(resolvedPath, stats.size, detected, buffer) };
       }
 
-      const content = await fs.readFile(resolvedPath, 'utf-8');
-      
       return {
-        path: resolvedPath,
-        content,
-        size: stats.size,
-        encoding: 'utf-8'
+        file: {
+          path: resolvedPath,
+          content: this.decode(buffer.subarray(detected.bom), detected.encoding),
+          size: stats.size,
+          encoding: detected.encoding
+        }
       };
     } catch (error) {
-      displayError(`Failed to read file: ${error}`);
+      return { skipped: 'unreadable', error: `Failed to read file: ${error}` };
+    }
+  }
+
+  static async readFile(filePath: string, options: ReadOptions = {}): Promise<FileContent | null> {
+    const result = await this.tryReadFile(filePath, options);
+    if (!result.file) {
+      displayError(result.error || `Failed to read file: ${filePath}`);
       return null;
     }
+    return result.file;
+  }
+
+  /**
+   * The text encoding of a file from its first bytes, or null for binary
+   * data. Null bytes mean binary unless they fall into the pattern of
+   * UTF-16 text; many other control characters mean binary too.
+   */
+  static detectEncoding(buffer: Buffer): DetectedEncoding | null {
+    for (const { bytes, encoding } of BOMS) {
+      if (bytes.every((byte, index) => buffer[index] === byte)) {
+        return { encoding, bom: bytes.length };
+      }
+    }
+
+    const sample = buffer.subarray(0, this.SNIFF_SIZE);
+    if (sample.includes(0)) {
+      const utf16 = this.detectUTF16(sample);
+      return utf16 ? { encoding: utf16, bom: 0 } : null;
+    }
+
+    // Controls other than tab, newlines, form feed and escape (used in logs)
+    let controls = 0;
+    for (const byte of sample) {
+      if (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) controls++;
+    }
+    if (controls > sample.length * 0.1) return null;
+
+    try {
+      // Streaming, so that a character cut off at the end is not an error
+      new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: true });
+      return { encoding: 'utf-8', bom: 0 };
+    } catch {
+      return { encoding: 'windows-1252', bom: 0 };
+    }
+  }
+
+  static isBinary(buffer: Buffer): boolean {
+    return this.detectEncoding(buffer) === null;
+  }
+
+  /**
+   * UTF-16 without a byte order mark: mostly ASCII text has a null byte in
+   * every other position, odd ones for little-endian.
+   */
+  private static detectUTF16(sample: Buffer): TextEncoding | undefined {
+    const pairs = Math.floor(sample.length / 2);
+    if (pairs === 0) return undefined;
+
+    let evenNulls = 0;
+    let oddNulls = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenNulls++;
+      if (sample[i + 1] === 0) oddNulls++;
+    }
+
+    if (oddNulls > pairs * 0.4 && evenNulls < pairs * 0.05) return 'utf-16le';
+    if (evenNulls > pairs * 0.4 && oddNulls < pairs * 0.05) return 'utf-16be';
+    return undefined;
+  }
+
+  private static decode(buffer: Buffer, encoding: TextEncoding): string {
+    const decoder = new TextDecoder(encoding);
+    // Node decodes windows-1252 as latin1 unless streaming
+    return decoder.decode(buffer, { stream: true }) + decoder.decode();
+  }
+
+  private static async readBytes(filePath: string, position: number, length: number): Promise<Buffer> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, position);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * The first and last lines of a file too large to send whole, with a note
+   * on how to get at the middle.
+   */
+  private static async readHeadAndTail(
+    filePath: string,
+    size: number,
+    detected: DetectedEncoding,
+    headBuffer: Buffer
+  ): Promise<FileContent> {
+    // UTF-16 characters start at even offsets
+    const tailStart = (size - this.CHUNK_SIZE) & ~1;
+    const tailBuffer = await this.readBytes(filePath, tailStart, size - tailStart);
+
+    const head = this.decode(headBuffer.subarray(detected.bom), detected.encoding);
+    const tail = this.decode(tailBuffer, detected.encoding);
+    // Keep whole lines only
+    const headLines = head.substring(0, head.lastIndexOf('\n')).split('\n');
+    const tailLines = tail.substring(tail.indexOf('\n') + 1).split('\n');
+    const omitted = ((size - 2 * this.CHUNK_SIZE) / 1024 / 1024).toFixed(2);
+    const name = path.relative(process.cwd(), filePath);
+
+    return {
+      path: filePath,
+      content: [
+        ...headLines,
+        '',
+        `[... about ${omitted}MB omitted; attach a line range such as ${name}:${headLines.length + 1}-${headLines.length + 500} for more ...]`,
+        '',
+        ...tailLines
+      ].join('\n'),
+      size,
+      encoding: detected.encoding,
+      excerpt: `first ${headLines.length} and last ${tailLines.length} lines`
+    };
+  }
+
+  /**
+   * Lines `range.start` to `range.end` of a file of any size. The file is
+   * read up to the last line wanted.
+   */
+  private static async readLineRange(
+    filePath: string,
+    size: number,
+    detected: DetectedEncoding,
+    range: LineRange
+  ): Promise<FileReadResult> {
+    const { start, end } = range;
+    if (start < 1) {
+      return { skipped: 'unreadable', error: 'Invalid line range: lines are numbered from 1' };
+    }
+    if (end !== undefined && end < start) {
+      return { skipped: 'unreadable', error: `Invalid line range ${start}-${end}: the range ends before it starts` };
+    }
+
+    const decoder = new TextDecoder(detected.encoding);
+    const lines: string[] = [];
+    let lineCount = 0;
+    let length = 0;
+    let pending = '';
+    let finished = false;
+
+    const take = (line: string) => {
+      lineCount++;
+      if (lineCount >= start && (end === undefined || lineCount <= end)) {
+        lines.push(line.replace(/\r$/, ''));
+        length += line.length + 1;
+      }
+    };
+
+    for await (const chunk of createReadStream(filePath, { start: detected.bom })) {
+      pending += decoder.decode(chunk as Buffer, { stream: true });
+      const parts = pending.split('\n');
+      pending = parts.pop()!;
+      parts.forEach(take);
+
+      if (length > this.MAX_FILE_SIZE) {
+        return { skipped: 'too-large', error: `Line range too large (over 1MB). Pick fewer lines` };
+      }
+      if (end !== undefined && lineCount >= end) {
+        finished = true;
+        break;
+      }
+    }
+    if (!finished) {
+      pending += decoder.decode();
+      if (pending) take(pending);
+      if (length > this.MAX_FILE_SIZE) {
+        return { skipped: 'too-large', error: `Line range too large (over 1MB). Pick fewer lines` };
+      }
+    }
+
+    if (lines.length === 0) {
+      return { skipped: 'unreadable', error: `${path.relative(process.cwd(), filePath)} has only ${lineCount} lines` };
+    }
+
+    const last = start + lines.length - 1;
+    return {
+      file: {
+        path: filePath,
+        content: lines.join('\n'),
+        size,
+        encoding: detected.encoding,
+        excerpt: `${last === start ? `line ${start}` : `lines ${start}-${last}`}${finished ? '' : ` of ${lineCount}`}`
+      }
+    };
+  }
+
+  /**
+   * What can be told about a binary file: its type, when known, and a hex
+   * dump of its first bytes.
+   */
+  private static describeBinary(buffer: Buffer, size: number): string {
+    const known = MAGIC_NUMBERS.find(magic => {
+      const bytes = Buffer.from(magic.bytes, 'hex');
+      const offset = magic.offset || 0;
+      return buffer.subarray(offset, offset + bytes.length).equals(bytes);
+    });
+
+    const dump: string[] = [];
+    const bytes = buffer.subarray(0, this.HEX_DUMP_SIZE);
+    for (let offset = 0; offset < bytes.length; offset += 16) {
+      const row = bytes.subarray(offset, offset + 16);
+      const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0'));
+      const ascii = Array.from(row, byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('');
+      dump.push(`${offset.toString(16).padStart(8, '0')}  ${hex.slice(0, 8).join(' ').padEnd(23)}  ${hex.slice(8).join(' ').padEnd(23)}  |${ascii}|`);
+    }
+
+    return [
+      `Binary file: ${known ? known.type : 'unknown type'}, ${size} bytes. First ${bytes.length} bytes:`,
+      '',
+      ...dump
+    ].join('\n');
+  }
+
+  /**
+   * Paths to attach for a file, a directory (all files below it) or a glob.
+   * Directories and globs skip files ignored by .gitignore; a file named
+   * directly is always included.
+   */
+  static async collectFiles(target: string): Promise<string[]> {
+    let stats;
+    try {
+      stats = await fs.stat(target);
+    } catch {
+      stats = undefined;
+    }
+
+    if (stats?.isFile()) return [target];
+    const pattern = stats?.isDirectory() ? `${target.replace(/[\\/]+$/, '')}/**/*` : target;
+    return expandGlob(pattern, process.cwd(), { gitignore: true });
   }
 
   static async readMultipleFiles(filePaths: string[]): Promise<FileContent[]> {
@@ -68,50 +420,12 @@ export class FileOperations {
   }
 
   static async saveConversation(
-    messages: Array<{ role: string; content: string }>,
+    session: SessionData,
     outputPath: string,
-    format: 'json' | 'md' | 'txt' = 'md'
+    format: ExportFormat = 'md'
   ): Promise<boolean> {
     try {
-      let content = '';
-      const timestamp = new Date().toISOString();
-
-      switch (format) {
-        case 'json':
-          content = JSON.stringify({
-            timestamp,
-            messages
-          }, null, 2);
-          break;
-
-        case 'md':
-          content = `# Conversation Export\n\n`;
-          content += `**Date:** ${timestamp}\n\n---\n\n`;
-          
-          messages.forEach(msg => {
-            if (msg.role === 'system') {
-              content += `## System Prompt\n\n${msg.content}\n\n---\n\n`;
-            } else if (msg.role === 'user') {
-              content += `### 👤 You\n\n${msg.content}\n\n`;
-            } else if (msg.role === 'assistant') {
-              content += `### 🤖 AI\n\n${msg.content}\n\n---\n\n`;
-            }
-          });
-          break;
-
-        case 'txt':
-          content = `Conversation Export\n`;
-          content += `Date: ${timestamp}\n`;
-          content += `${'='.repeat(50)}\n\n`;
-          
-          messages.forEach(msg => {
-            const role = msg.role.charAt(0).toUpperCase() + msg.role.slice(1);
-            content += `${role}:\n${msg.content}\n\n${'-'.repeat(30)}\n\n`;
-          });
-          break;
-      }
-
-      await fs.writeFile(outputPath, content, 'utf-8');
+      await fs.writeFile(outputPath, formatConversation(session, format), 'utf-8');
       displayInfo(`Conversation saved to: ${outputPath}`);
       return true;
     } catch (error) {
@@ -123,8 +437,14 @@ export class FileOperations {
   static formatFileContent(file: FileContent): string {
     const relativePath = path.relative(process.cwd(), file.path);
     const sizeKB = (file.size / 1024).toFixed(2);
-    
-    return `\n📄 **File:** ${relativePath} (${sizeKB}KB)\n\`\`\`${this.getLanguageFromExtension(file.path)}\n${file.content}\n\`\`\`\n`;
+    const details = [
+      file.excerpt,
+      `${sizeKB}KB`,
+      !file.binary && file.encoding !== 'utf-8' && `decoded from ${file.encoding}`
+    ].filter(Boolean).join(', ');
+    const language = file.binary ? 'text' : this.getLanguageFromExtension(file.path);
+
+    return `\n📄 **File:** ${relativePath} (${details})\n\`\`\`${language}\n${file.content}\n\`\`\`\n`;
   }
 
   private static getLanguageFromExtension(filePath: string): string {
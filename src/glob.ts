@@ -0,0 +1,230 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Directories that are never worth walking into
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
+
+export function hasMagic(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Convert a glob to a regular expression over "/"-separated relative paths.
+ * Supports *, ?, ** for any number of directories, [abc] / [!abc] classes
+ * and {a,b} alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more whole directories
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = pattern.substring(i + 1, end).replace(/\\/g, '\\\\');
+      if (body.startsWith('!')) body = '^' + body.substring(1);
+      source += `[${body}]`;
+      i = end;
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+interface IgnoreRule {
+  matcher: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  // Rules with a slash before the end match from the .gitignore directory
+  anchored: boolean;
+}
+
+export function parseGitignore(text: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.substring(1);
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.replace(/\/+$/, '');
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) continue;
+
+    rules.push({ matcher: globToRegExp(line), negate, dirOnly, anchored });
+  }
+  return rules;
+}
+
+/**
+ * The .gitignore rules that apply to a directory tree: those of the
+ * enclosing repository's directories above it, plus those found while
+ * walking it (see `addDirectory`). Later and deeper rules win, as in git.
+ */
+export class GitIgnore {
+  private sources: Array<{ base: string; rules: IgnoreRule[] }> = [];
+  private loaded = new Set<string>();
+
+  static async forDirectory(dir: string): Promise<GitIgnore> {
+    const ignore = new GitIgnore();
+    const ancestors: string[] = [];
+    let current = path.resolve(dir);
+
+    // Up to the repository root, or just this directory outside a repository
+    for (;;) {
+      ancestors.unshift(current);
+      if (await exists(path.join(current, '.git'))) break;
+      const parent = path.dirname(current);
+      if (parent === current) {
+        ancestors.splice(0, ancestors.length - 1);
+        break;
+      }
+      current = parent;
+    }
+
+    for (const ancestor of ancestors) {
+      await ignore.addDirectory(ancestor);
+    }
+    return ignore;
+  }
+
+  async addDirectory(dir: string): Promise<void> {
+    if (this.loaded.has(dir)) return;
+    this.loaded.add(dir);
+    try {
+      const rules = parseGitignore(await fs.readFile(path.join(dir, '.gitignore'), 'utf-8'));
+      if (rules.length > 0) this.sources.push({ base: dir, rules });
+    } catch {
+      // No .gitignore here
+    }
+  }
+
+  isIgnored(filePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const { base, rules } of this.sources) {
+      const relative = path.relative(base, filePath).split(path.sep).join('/');
+      if (!relative || relative.startsWith('..')) continue;
+      const name = path.basename(filePath);
+
+      for (const rule of rules) {
+        if (rule.dirOnly && !isDirectory) continue;
+        if (rule.matcher.test(rule.anchored ? relative : name)) {
+          ignored = !rule.negate;
+        }
+      }
+    }
+    return ignored;
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface GlobOptions {
+  // Skip files and directories ignored by .gitignore files
+  gitignore?: boolean;
+}
+
+/**
+ * Find the files matching a glob, relative to cwd unless the pattern is
+ * absolute. Results are sorted and returned as given in the pattern
+ * (relative or absolute). A pattern without wildcards matches itself when
+ * the file exists. Dotfiles only match when the pattern mentions them.
+ */
+export async function expandGlob(
+  pattern: string,
+  cwd: string = process.cwd(),
+  options: GlobOptions = {}
+): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join('/');
+
+  if (!hasMagic(normalized)) {
+    try {
+      const stats = await fs.stat(path.resolve(cwd, normalized));
+      return stats.isFile() ? [pattern] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Walk from the longest leading part of the pattern without wildcards
+  const segments = normalized.split('/');
+  const firstMagic = segments.findIndex(segment => hasMagic(segment));
+  const base = segments.slice(0, firstMagic).join('/');
+  const rest = segments.slice(firstMagic).join('/');
+
+  const matcher = globToRegExp(rest);
+  const includeDot = /(^|\/)\./.test(rest);
+  // Without "**" the pattern fixes how deep matches can be
+  const maxDepth = rest.includes('**') ? Infinity : rest.split('/').length;
+  const root = path.resolve(cwd, base || '.');
+  const ignore = options.gitignore ? await GitIgnore.forDirectory(root) : undefined;
+  const matches: string[] = [];
+
+  const walk = async (dir: string, relative: string, depth: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    await ignore?.addDirectory(dir);
+
+    for (const entry of entries) {
+      if (!includeDot && entry.name.startsWith('.')) continue;
+      if (ignore?.isIgnored(path.join(dir, entry.name), entry.isDirectory())) continue;
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (depth < maxDepth && !IGNORED_DIRS.has(entry.name)) {
+          await walk(path.join(dir, entry.name), entryRelative, depth + 1);
+        }
+      } else if (entry.isFile() && matcher.test(entryRelative)) {
+        matches.push(base ? `${base}/${entryRelative}` : entryRelative);
+      }
+    }
+  };
+
+  await walk(root, '', 1);
+  return matches.sort();
+}
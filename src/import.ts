@@ -0,0 +1,241 @@
+import { createHash } from 'crypto';
+import { ChatMessage } from './api.js';
+import { ConversationTree, SessionData, isValidTree } from './conversation.js';
+import { ConfigError } from './errors.js';
+
+export type ImportFormat = 'cere' | 'markdown' | 'openai' | 'chatgpt';
+
+export interface ImportedConversation {
+  // Session id, when the source has a stable one
+  id?: string;
+  // Kept from cere session files
+  tree?: ConversationTree;
+  tags?: string[];
+  title?: string;
+  date?: string;
+  messages: ChatMessage[];
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  conversations: ImportedConversation[];
+}
+
+const ROLES = ['system', 'user', 'assistant', 'tool'];
+
+// Headings written by formatConversation for Markdown. Tool results are
+// skipped along with the calls, which the export only describes.
+const MARKDOWN_HEADINGS: Record<string, ChatMessage['role']> = {
+  '## System Prompt': 'system',
+  '### 👤 You': 'user',
+  '### 🤖 AI': 'assistant'
+};
+const MARKDOWN_TOOL_HEADING = /^### 🔧 Tool\b/;
+// Message details and tool calls written around the content
+const MARKDOWN_DETAILS = /^(<sub>.*<\/sub>|\*\*Tool call:\*\* `.*`)$/;
+
+/**
+ * Message content as plain text. OpenAI-style content can be a list of
+ * parts; only text parts are kept.
+ */
+function toText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map(part => typeof part === 'string' ? part : part?.type === 'text' && typeof part.text === 'string' ? part.text : '')
+      .filter(Boolean)
+      .join('\n');
+  }
+  return '';
+}
+
+function toMessage(value: any, index: number): ChatMessage {
+  if (!value || typeof value !== 'object' || !ROLES.includes(value.role)) {
+    throw new ConfigError(`Message ${index + 1} has no valid role (${ROLES.join(', ')})`);
+  }
+
+  const message: ChatMessage = { role: value.role, content: toText(value.content) };
+  if (Array.isArray(value.tool_calls)) message.tool_calls = value.tool_calls;
+  if (typeof value.tool_call_id === 'string') message.tool_call_id = value.tool_call_id;
+  if (value.metadata && typeof value.metadata === 'object') message.metadata = value.metadata;
+  return message;
+}
+
+function isMessageList(value: unknown): value is any[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item => item && typeof item === 'object' && 'role' in item);
+}
+
+function isChatGPTConversation(value: any): boolean {
+  return !!value && typeof value === 'object' && value.mapping && typeof value.mapping === 'object';
+}
+
+function fromUnixTime(seconds: unknown): string | undefined {
+  return typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+/**
+ * The visible path of a ChatGPT conversation: from the current node back to
+ * the root. Edited and regenerated branches are left out, as are hidden
+ * system messages and tool output, which has no matching tool call.
+ */
+function parseChatGPTConversation(conversation: any): ImportedConversation {
+  const mapping = conversation.mapping;
+  let nodeId: string | undefined = conversation.current_node;
+  if (!nodeId || !mapping[nodeId]) {
+    // Older exports have no current node; follow the first child instead
+    nodeId = Object.keys(mapping).find(id => !mapping[id].parent);
+    while (nodeId && mapping[nodeId]?.children?.length) {
+      nodeId = mapping[nodeId].children[0];
+    }
+  }
+
+  const messages: ChatMessage[] = [];
+  const seen = new Set<string>();
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    const message = mapping[nodeId].message;
+    const role = message?.author?.role;
+    const content = toText(message?.content?.parts).trim();
+    const hidden = message?.metadata?.is_visually_hidden_from_conversation;
+
+    if ((role === 'system' || role === 'user' || role === 'assistant') && content && !hidden) {
+      messages.unshift({
+        role,
+        content,
+        metadata: {
+          ...(message.metadata?.model_slug && { model: message.metadata.model_slug }),
+          ...(fromUnixTime(message.create_time) && { timestamp: fromUnixTime(message.create_time) })
+        }
+      });
+    }
+    nodeId = mapping[nodeId].parent;
+  }
+
+  const id = conversation.conversation_id || conversation.id;
+  return {
+    id: typeof id === 'string' && /^[\w-]+$/.test(id) ? `chatgpt-${id}` : undefined,
+    title: typeof conversation.title === 'string' ? conversation.title : undefined,
+    date: fromUnixTime(conversation.update_time) || fromUnixTime(conversation.create_time),
+    messages
+  };
+}
+
+function parseMarkdown(text: string): ParsedImport {
+  const date = text.match(/^\*\*Date:\*\* (.+?)\s*$/m)?.[1].replace(' UTC', 'Z').replace(' ', 'T');
+  const title = text.match(/^# (.+)$/m)?.[1].trim();
+  const messages: ChatMessage[] = [];
+  let current: { role?: ChatMessage['role']; lines: string[] } | undefined;
+
+  const finish = () => {
+    if (!current?.role) return;
+    // Replies are followed by a horizontal rule
+    const content = current.lines.join('\n').trim().replace(/\n*---$/, '').trim();
+    if (content) messages.push({ role: current.role, content });
+  };
+
+  for (const line of text.split('\n')) {
+    const role = MARKDOWN_HEADINGS[line.trimEnd()];
+    if (role || MARKDOWN_TOOL_HEADING.test(line)) {
+      finish();
+      current = { role, lines: [] };
+    } else if (current && !MARKDOWN_DETAILS.test(line.trim())) {
+      current.lines.push(line);
+    }
+  }
+  finish();
+
+  if (messages.length === 0) {
+    throw new ConfigError('No messages found. Markdown imports must be cere exports');
+  }
+  return {
+    format: 'markdown',
+    conversations: [{
+      title: title && title !== 'Conversation Export' ? title : undefined,
+      date: date && !isNaN(Date.parse(date)) ? new Date(date).toISOString() : undefined,
+      messages
+    }]
+  };
+}
+
+function parseJSON(value: any): ParsedImport {
+  if (Array.isArray(value) && value.length > 0 && value.every(isChatGPTConversation)) {
+    return { format: 'chatgpt', conversations: value.map(parseChatGPTConversation) };
+  }
+  if (isChatGPTConversation(value)) {
+    return { format: 'chatgpt', conversations: [parseChatGPTConversation(value)] };
+  }
+
+  if (isMessageList(value)) {
+    return { format: 'openai', conversations: [{ messages: value.map(toMessage) }] };
+  }
+
+  if (value && typeof value === 'object' && isMessageList(value.messages)) {
+    // A saved session or `cere` JSON export, or an OpenAI request body
+    const session = typeof value.id === 'string' && typeof value.date === 'string';
+    const cere = session || typeof value.timestamp === 'string';
+    return {
+      format: cere ? 'cere' : 'openai',
+      conversations: [{
+        ...(session && {
+          id: value.id,
+          // A tree that does not hold together is rebuilt from the messages
+          tree: isValidTree(value.tree) ? value.tree : undefined,
+          tags: Array.isArray(value.tags) ? value.tags : undefined
+        }),
+        // Our JSONL export keeps the session details under "metadata"
+        title: [value.title, value.metadata?.title].find(title => typeof title === 'string'),
+        date: value.date || value.metadata?.date || value.timestamp,
+        messages: value.messages.map(toMessage)
+      }]
+    };
+  }
+
+  throw new ConfigError('Unrecognized format. Expected a cere export or session, an OpenAI messages array, or a ChatGPT conversations.json');
+}
+
+/**
+ * Parse an export into conversations. Supported are cere's own JSON and
+ * Markdown exports and session files, OpenAI-style `messages` arrays (also
+ * one conversation per line, as in fine-tuning files) and ChatGPT's
+ * `conversations.json`.
+ */
+export function parseImport(text: string): ParsedImport {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    const lines = text.split('\n').filter(line => line.trim());
+    if (lines.length > 0 && lines.every(line => line.trim().startsWith('{'))) {
+      try {
+        const conversations = lines.map(line => parseJSON(JSON.parse(line)).conversations[0]);
+        return { format: 'openai', conversations };
+      } catch (error) {
+        throw new ConfigError(`Invalid JSON lines: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return parseMarkdown(text);
+  }
+  return parseJSON(value);
+}
+
+/**
+ * A session for an imported conversation. Unless a session file is imported,
+ * the id is derived from the content, so importing the same export twice
+ * finds the existing session.
+ */
+export function toSession(conversation: ImportedConversation, format: ImportFormat, tags: string[] = []): SessionData {
+  const hash = createHash('sha1')
+    .update(JSON.stringify(conversation.messages.map(message => [message.role, message.content])))
+    .digest('hex')
+    .substring(0, 12);
+  const timestamps = conversation.messages.map(message => message.metadata?.timestamp).filter(Boolean) as string[];
+
+  return {
+    id: conversation.id || `${format}-${hash}`,
+    date: conversation.date || timestamps.at(-1) || new Date().toISOString(),
+    messages: conversation.messages,
+    ...(conversation.tree && { tree: conversation.tree }),
+    title: conversation.title,
+    tags: Array.from(new Set([...(conversation.tags || []), ...tags.map(tag => tag.toLowerCase())]))
+  };
+}
@@ -1,9 +1,36 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { config } from './config.js';
-import { CerebrasAPI } from './api.js';
+import { config, DEFAULT_PROFILE, ProviderProfile } from './config.js';
+import { CerebrasAPI, ChatMessage, isCancellation } from './api.js';
+import { ConfigError, EXIT_CODES, SchemaValidationError, getExitCode } from './errors.js';
+import { RetryInfo } from './retry.js';
+import { loadSchema, requestStructuredReply, schemaName } from './schema.js';
+import { MESSAGE_ROLES, SearchIndex, parseDateFilter, parseSearchQuery, printSearchResults } from './search.js';
+import {
+  INPUT_VARIABLE,
+  TemplateManager,
+  askForVariables,
+  getTemplateVariables,
+  parseVariables,
+  printTemplates,
+  renderTemplate,
+  splitTurns,
+  templateFromMessages
+} from './templates.js';
 import { InteractiveChat } from './chat.js';
+import { formatReplayReport, isChanged, loadReplaySource, replayConversation } from './replay.js';
+import { BatchItem, loadFileItems, loadJsonlItems, prepareOutput, runBatch } from './batch.js';
+import {
+  ConversationManager,
+  describeSession,
+  filterSessions,
+  getSessionMessages,
+  printSessions,
+  printTranscript,
+  summarizeSession
+} from './conversation.js';
+import { addUsage, emptyUsage, estimateCost, formatCost, printUsageTable, summarizeUsage } from './usage.js';
 import {
   displayBanner,
   displayError,
@@ -11,12 +38,19 @@ import {
   displayInfo,
   displayWarning,
   createSpinner,
-  getTheme
+  formatRetryNotice,
+  formatTimestamp,
+  getTheme,
+  readStdin
 } from './utils.js';
+import { EXPORT_FORMATS, formatConversation, getExportFormat } from './export.js';
+import { FileOperations } from './file-operations.js';
+import { parseImport, toSession } from './import.js';
+import { SHELL_POLICIES } from './shell.js';
 import inquirer from 'inquirer';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
+import { dirname, join, resolve } from 'path';
 import fs from 'fs/promises';
 
 // Load environment variables
@@ -32,6 +66,191 @@ const packageJson = JSON.parse(
 
 const program = new Command();
 
+/**
+ * Make sure the active profile can authenticate. Only the built-in Cerebras
+ * profile requires a key; it may also come from CEREBRAS_API_KEY.
+ */
+function ensureApiKey(): boolean {
+  if (config.getProfileName() !== DEFAULT_PROFILE) {
+    return true;
+  }
+
+  // Set API key from env if not in config
+  if (!config.has('apiKey') && process.env.CEREBRAS_API_KEY) {
+    config.set('apiKey', process.env.CEREBRAS_API_KEY);
+  }
+
+  if (!config.has('apiKey')) {
+    displayError('API key not configured. Please run "cere config --api-key YOUR_KEY" first.');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The message for single-message mode: piped input is context for -m, or
+ * the message itself without it (or with "-m -").
+ */
+function combineInput(message: string | undefined, stdin: string | undefined): string {
+  if (!message || message === '-') {
+    return stdin || '';
+  }
+  return stdin ? `${message}\n\n${stdin}` : message;
+}
+
+/**
+ * The absolute path of a workspace directory for the file tools.
+ */
+async function resolveWorkspace(dir: string): Promise<string> {
+  const root = resolve(dir);
+  let stats;
+  try {
+    stats = await fs.stat(root);
+  } catch {
+    throw new ConfigError(`Workspace directory does not exist: ${root}`);
+  }
+  if (!stats.isDirectory()) {
+    throw new ConfigError(`Workspace is not a directory: ${root}`);
+  }
+  return root;
+}
+
+/**
+ * Fill in a prompt template for `chat --template` and use its settings for
+ * this run. The -m message or piped input becomes {{input}}, or is added
+ * after the template's prompt when it has no such placeholder.
+ */
+async function applyTemplate(
+  name: string,
+  pairs: string[],
+  input: string
+): Promise<{ system?: string; turns: string[] }> {
+  const template = await new TemplateManager().getTemplate(name);
+  config.useSettings({
+    model: template.model,
+    temperature: template.temperature,
+    maxTokens: template.max_tokens
+  });
+
+  let values = parseVariables(pairs);
+  const usesInput = getTemplateVariables(template).includes(INPUT_VARIABLE);
+  if (usesInput && input) {
+    values[INPUT_VARIABLE] = input;
+  }
+  values = await askForVariables(template, values);
+
+  const rendered = renderTemplate(template, values);
+  const turns = splitTurns(rendered.prompt);
+  if (input && !usesInput) {
+    if (turns.length > 0) {
+      turns[turns.length - 1] += `\n\n${input}`;
+    } else {
+      turns.push(input);
+    }
+  }
+  return { system: rendered.system, turns };
+}
+
+/**
+ * Non-interactive mode for `-m` and piped input. Replies are streamed
+ * undecorated when asked for with --raw or when stdout is not a terminal,
+ * so the output can be piped into other tools.
+ */
+async function sendSingleMessage(
+  options: { message?: string; system?: string; raw?: boolean; json?: boolean; jsonSchema?: string },
+  stdin: string | undefined
+): Promise<void> {
+  const content = combineInput(options.message, stdin);
+
+  if (!content.trim()) {
+    displayError('No message given. Pass one with -m or pipe it through stdin.');
+    process.exit(EXIT_CODES.error);
+  }
+
+  const messages: ChatMessage[] = [];
+  if (options.system) {
+    messages.push({ role: 'system', content: options.system });
+  }
+  messages.push({ role: 'user', content });
+
+  const request = {
+    model: config.getModel(),
+    messages,
+    temperature: config.get('temperature') || 0.7,
+    max_tokens: config.get('maxTokens') || 1024
+  };
+
+  const schema = options.jsonSchema ? await loadSchema(options.jsonSchema) : undefined;
+  const api = new CerebrasAPI();
+  const plain = options.raw || options.json || !process.stdout.isTTY;
+  const spinner = createSpinner('Getting response...');
+  if (!plain) spinner.start();
+
+  const controller = new AbortController();
+  process.on('SIGINT', () => controller.abort());
+  const requestOptions = {
+    onRetry: (info: RetryInfo) => { spinner.text = formatRetryNotice(info); },
+    signal: controller.signal
+  };
+
+  try {
+    if (schema) {
+      const reply = await requestStructuredReply(api, request, schema, {
+        ...requestOptions,
+        name: schemaName(options.jsonSchema!),
+        onInvalid: (errors, attempt) => {
+          spinner.text = `Reply did not match the schema (${errors.length} problems), retrying (attempt ${attempt + 1})...`;
+        }
+      });
+      spinner.stop();
+      const output = options.json ? reply.response : reply.value;
+      process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+    } else if (options.json) {
+      const response = await api.chatCompletion(request, requestOptions);
+      process.stdout.write(JSON.stringify(response, null, 2) + '\n');
+    } else if (plain) {
+      let last = '';
+      await api.streamChatCompletion(request, (chunk) => {
+        process.stdout.write(chunk);
+        last = chunk;
+      }, requestOptions);
+      if (!last.endsWith('\n')) process.stdout.write('\n');
+    } else {
+      const response = await api.chatCompletion(request, requestOptions);
+      spinner.stop();
+      console.log(getTheme().assistant('\n🤖 AI:'));
+      console.log(response.choices[0].message.content);
+      console.log();
+    }
+  } catch (error) {
+    spinner.stop();
+    if (isCancellation(error)) {
+      process.exit(EXIT_CODES.interrupted);
+    }
+    displayError(`Failed to get response: ${error}`);
+    if (error instanceof SchemaValidationError) {
+      error.errors.forEach(problem => console.error(getTheme().error(`  ${problem}`)));
+    }
+    process.exit(getExitCode(error));
+  }
+}
+
+function maskApiKey(key: string): string {
+  return key.substring(0, 8) + '...' + key.substring(key.length - 4);
+}
+
+function parseHeaders(headers: string[]): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  for (const header of headers) {
+    const separator = header.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid header "${header}". Use Name=Value`);
+    }
+    parsed[header.substring(0, separator).trim()] = header.substring(separator + 1).trim();
+  }
+  return parsed;
+}
+
 program
   .name('cere')
   .description('A complete and intuitive interactive CLI for talking to AI through the Cerebras API')
@@ -46,62 +265,81 @@ program
   .option('--model <model>', 'Specify the model to use')
   .option('--temperature <temp>', 'Set temperature (0-2)', parseFloat)
   .option('--max-tokens <tokens>', 'Set max tokens', parseInt)
+  .option('-p, --profile <name>', 'Use a provider profile for this session')
+  .option('--raw', 'Print only the reply, streamed, without decoration')
+  .option('--json', 'Print the full API response as JSON')
+  .option('--json-schema <file>', 'Ask for JSON matching a schema and print it, validated')
+  .option('-t, --template <name>', 'Start from a saved prompt template')
+  .option('--var <variable...>', 'Set template variables (name=value)')
+  .option('-c, --continue', 'Continue the most recent saved conversation')
+  .option('-r, --resume <id>', 'Continue a saved conversation')
+  .option('-w, --workspace <dir>', 'Directory the file tools may use (default: the configured workspace or current directory)')
   .action(async (options) => {
     try {
+      if (options.profile) config.useProfile(options.profile);
+
       // Check if API key is configured
-      if (!config.has('apiKey') && !process.env.CEREBRAS_API_KEY) {
-        displayError('API key not configured. Please run "cere config --api-key YOUR_KEY" first.');
-        process.exit(1);
+      if (!ensureApiKey()) {
+        process.exit(EXIT_CODES.config);
       }
 
-      // Set API key from env if not in config
-      if (!config.has('apiKey') && process.env.CEREBRAS_API_KEY) {
-        config.set('apiKey', process.env.CEREBRAS_API_KEY);
+      const resuming = options.continue || options.resume;
+      if (resuming && (options.message || options.system || options.template)) {
+        displayError('--continue and --resume cannot be combined with --message, --system or --template');
+        process.exit(EXIT_CODES.error);
       }
 
-      // Apply command-line options to config
-      if (options.model) config.set('model', options.model);
-      if (options.temperature !== undefined) config.set('temperature', options.temperature);
-      if (options.maxTokens !== undefined) config.set('maxTokens', options.maxTokens);
+      // Piped input is context for -m, or the message itself without it
+      const stdin = resuming ? undefined : await readStdin(options.message === '-');
+      const singleMessage = options.message || stdin !== undefined;
 
-      if (options.message) {
-        // Single message mode
-        const api = new CerebrasAPI();
-        const spinner = createSpinner('Getting response...');
-        spinner.start();
+      let system = options.system;
+      let turns: string[] = options.message ? [options.message] : [];
+      if (options.template) {
+        const applied = await applyTemplate(
+          options.template,
+          options.var || [],
+          singleMessage ? combineInput(options.message, stdin) : ''
+        );
+        system = options.system ?? applied.system;
+        turns = applied.turns;
+      }
 
-        try {
-          const messages = [];
-          if (options.system) {
-            messages.push({ role: 'system' as const, content: options.system });
-          }
-          messages.push({ role: 'user' as const, content: options.message });
-
-          const response = await api.chatCompletion({
-            model: config.get('model') || 'llama3.1-8b',
-            messages,
-            temperature: config.get('temperature') || 0.7,
-            max_tokens: config.get('maxTokens') || 1024
-          });
-
-          spinner.stop();
-          console.log(getTheme().assistant('\n🤖 AI:'));
-          console.log(response.choices[0].message.content);
-          console.log();
-        } catch (error) {
-          spinner.stop();
-          displayError(`Failed to get response: ${error}`);
-          process.exit(1);
+      // Command-line options win over the template, for this run only
+      config.useSettings({
+        model: options.model,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        workspaceRoot: options.workspace && await resolveWorkspace(options.workspace)
+      });
+
+      if (singleMessage) {
+        if (turns.length > 1) {
+          displayError(`Template ${options.template} has ${turns.length} turns. Use "cere replay ${options.template}" to send them all`);
+          process.exit(EXIT_CODES.error);
         }
+        await sendSingleMessage(
+          { ...options, system, message: turns[0] },
+          options.template ? undefined : stdin
+        );
       } else {
         // Interactive mode
-        displayBanner();
         const chat = new InteractiveChat();
-        await chat.start(undefined, options.system, false);
+        if (resuming) {
+          const sessionId = options.resume || await new ConversationManager().getLatestSessionId();
+          if (!sessionId) {
+            displayError('No saved conversation to continue');
+            process.exit(EXIT_CODES.error);
+          }
+          await chat.resumeSession(sessionId);
+        }
+
+        displayBanner();
+        await chat.start(turns, system, false);
       }
     } catch (error) {
-      displayError(`Failed to start chat: ${error}`);
-      process.exit(1);
+      displayError(`Failed to start chat: ${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
     }
   });
 
@@ -115,21 +353,67 @@ program
   .option('--max-tokens <tokens>', 'Set default max tokens', parseInt)
   .option('--theme <theme>', 'Set theme (default, dark, light, colorful)')
   .option('--history <enabled>', 'Enable/disable conversation history (true/false)')
+  .option('--profile <name>', 'Profile to update with --api-key, --model, --base-url and --header')
+  .option('--base-url <url>', 'Set the API base URL of a profile')
+  .option('--header <header...>', 'Set extra request headers of a profile (Name=Value)')
+  .option('--use-profile <name>', 'Set the default provider profile')
+  .option('--remove-profile <name>', 'Delete a provider profile')
+  .option('--tools <enabled>', 'Enable/disable tool use (true/false)')
+  .option('--context-strategy <strategy>', 'Fit long conversations by dropping or summarizing old turns (truncate/summarize)')
+  .option('--context-size <size...>', 'Set model context windows in tokens (model=tokens)')
+  .option('--show-usage <enabled>', 'Show token usage after each reply (true/false)')
+  .option('--price <price...>', 'Set model prices in USD per million tokens (model=input,output)')
+  .option('--max-retries <count>', 'Set how many times failed requests are retried', parseInt)
+  .option('--max-retry-delay <ms>', 'Set the longest delay between retries in milliseconds', parseInt)
+  .option('--auto-title <enabled>', 'Name conversations automatically after the first reply (true/false)')
+  .option('--title-model <model>', 'Set the model used to name conversations')
+  .option('--workspace <dir>', 'Set the directory the file tools may use')
+  .option('--shell-policy <policy>', 'Approve commands the AI wants to run: ask, allowlist or deny')
+  .option('--shell-allow <pattern...>', 'Add commands the allowlist policy runs without asking ("*" matches any text)')
+  .option('--shell-disallow <pattern...>', 'Remove commands from the shell allowlist')
+  .option('--shell-timeout <ms>', 'Set how long commands may run in milliseconds', parseInt)
+  .option('--shell-max-output <chars>', 'Set how many characters of command output are kept', parseInt)
   .option('--show', 'Show current configuration')
   .option('--reset', 'Reset configuration to defaults')
   .action(async (options) => {
     if (options.show) {
-      const currentConfig = config.getAll();
+      const { profiles, activeProfile, prices, contextSizes, ...currentConfig } = config.getAll();
       console.log(getTheme().info('\n📋 Current Configuration:\n'));
       Object.entries(currentConfig).forEach(([key, value]) => {
         if (key === 'apiKey' && value) {
           // Mask API key
-          const masked = (value as string).substring(0, 8) + '...' + (value as string).substring((value as string).length - 4);
-          console.log(`  ${key}: ${masked}`);
+          console.log(`  ${key}: ${maskApiKey(value as string)}`);
         } else {
           console.log(`  ${key}: ${value}`);
         }
       });
+
+      const active = activeProfile || DEFAULT_PROFILE;
+      console.log(getTheme().info('\n🔌 Profiles:\n'));
+      console.log(`  ${DEFAULT_PROFILE}${active === DEFAULT_PROFILE ? ' ✓' : ''}`);
+      Object.entries(profiles || {}).forEach(([name, profile]) => {
+        console.log(`  ${name}${active === name ? ' ✓' : ''}`);
+        if (profile.baseURL) console.log(`    baseURL: ${profile.baseURL}`);
+        if (profile.apiKey) console.log(`    apiKey: ${maskApiKey(profile.apiKey)}`);
+        if (profile.model) console.log(`    model: ${profile.model}`);
+        Object.entries(profile.headers || {}).forEach(([header, value]) => {
+          console.log(`    header: ${header}=${value}`);
+        });
+      });
+
+      if (contextSizes && Object.keys(contextSizes).length > 0) {
+        console.log(getTheme().info('\n🧠 Context Windows:\n'));
+        Object.entries(contextSizes).forEach(([model, size]) => {
+          console.log(`  ${model}: ${size} tokens`);
+        });
+      }
+
+      if (prices && Object.keys(prices).length > 0) {
+        console.log(getTheme().info('\n💲 Prices (USD per million tokens):\n'));
+        Object.entries(prices).forEach(([model, price]) => {
+          console.log(`  ${model}: ${price.input} input / ${price.output} output`);
+        });
+      }
       console.log();
       return;
     }
@@ -151,8 +435,60 @@ program
       return;
     }
 
+    if (options.removeProfile) {
+      if (!config.getProfiles()[options.removeProfile]) {
+        displayError(`Unknown profile: ${options.removeProfile}`);
+      } else {
+        config.deleteProfile(options.removeProfile);
+        displaySuccess(`Profile removed: ${options.removeProfile}`);
+      }
+      return;
+    }
+
+    if (options.profile && options.profile !== DEFAULT_PROFILE) {
+      const existing = config.getProfiles()[options.profile];
+      const profile: ProviderProfile = { ...existing };
+
+      if (options.baseUrl) profile.baseURL = options.baseUrl;
+      if (options.apiKey) profile.apiKey = options.apiKey;
+      if (options.model) profile.model = options.model;
+      if (options.header) {
+        try {
+          profile.headers = { ...profile.headers, ...parseHeaders(options.header) };
+        } catch (error) {
+          displayError(`${error instanceof Error ? error.message : error}`);
+          return;
+        }
+      }
+
+      if (existing && !options.baseUrl && !options.apiKey && !options.model && !options.header) {
+        displayInfo('No profile changes made. Use --base-url, --api-key, --model or --header.');
+        return;
+      }
+
+      config.setProfile(options.profile, profile);
+      displaySuccess(`Profile ${existing ? 'updated' : 'created'}: ${options.profile}`);
+      return;
+    }
+
+    if (options.baseUrl || options.header) {
+      displayError(`--base-url and --header require --profile <name> (the ${DEFAULT_PROFILE} profile uses the default endpoint)`);
+      return;
+    }
+
     let changed = false;
 
+    if (options.useProfile) {
+      try {
+        config.getProfile(options.useProfile);
+        config.set('activeProfile', options.useProfile);
+        displaySuccess(`Default profile set to: ${options.useProfile}`);
+        changed = true;
+      } catch (error) {
+        displayError(`${error instanceof Error ? error.message : error}`);
+      }
+    }
+
     if (options.apiKey) {
       config.set('apiKey', options.apiKey);
       displaySuccess('API key saved');
@@ -203,6 +539,146 @@ program
       changed = true;
     }
 
+    if (options.maxRetries !== undefined) {
+      if (options.maxRetries >= 0) {
+        config.set('maxRetries', options.maxRetries);
+        displaySuccess(`Max retries set to: ${options.maxRetries}`);
+        changed = true;
+      } else {
+        displayError('Max retries must be zero or a positive number');
+      }
+    }
+
+    if (options.maxRetryDelay !== undefined) {
+      if (options.maxRetryDelay > 0) {
+        config.set('maxRetryDelay', options.maxRetryDelay);
+        displaySuccess(`Max retry delay set to: ${options.maxRetryDelay}ms`);
+        changed = true;
+      } else {
+        displayError('Max retry delay must be a positive number');
+      }
+    }
+
+    if (options.contextStrategy) {
+      if (options.contextStrategy === 'truncate' || options.contextStrategy === 'summarize') {
+        config.set('contextStrategy', options.contextStrategy);
+        displaySuccess(`Context strategy set to: ${options.contextStrategy}`);
+        changed = true;
+      } else {
+        displayError('Context strategy must be "truncate" or "summarize"');
+      }
+    }
+
+    if (options.contextSize) {
+      const contextSizes = { ...config.get('contextSizes') };
+      for (const size of options.contextSize as string[]) {
+        const match = size.match(/^(.+)=(\d+)$/);
+        if (!match) {
+          displayError(`Invalid context size "${size}". Use model=tokens`);
+          continue;
+        }
+        contextSizes[match[1]] = parseInt(match[2]);
+        displaySuccess(`Context window for ${match[1]} set to: ${match[2]} tokens`);
+        changed = true;
+      }
+      config.set('contextSizes', contextSizes);
+    }
+
+    if (options.showUsage !== undefined) {
+      const enabled = options.showUsage === 'true';
+      config.set('showUsage', enabled);
+      displaySuccess(`Token usage display ${enabled ? 'enabled' : 'disabled'}`);
+      changed = true;
+    }
+
+    if (options.price) {
+      const prices = { ...config.get('prices') };
+      for (const price of options.price as string[]) {
+        const match = price.match(/^(.+)=([\d.]+),([\d.]+)$/);
+        if (!match) {
+          displayError(`Invalid price "${price}". Use model=input,output`);
+          continue;
+        }
+        prices[match[1]] = { input: parseFloat(match[2]), output: parseFloat(match[3]) };
+        displaySuccess(`Price for ${match[1]} set to: $${match[2]} input / $${match[3]} output per million tokens`);
+        changed = true;
+      }
+      config.set('prices', prices);
+    }
+
+    if (options.tools !== undefined) {
+      const enabled = options.tools === 'true';
+      config.set('toolsEnabled', enabled);
+      displaySuccess(`Tool use ${enabled ? 'enabled' : 'disabled'}`);
+      changed = true;
+    }
+
+    if (options.autoTitle !== undefined) {
+      const enabled = options.autoTitle === 'true';
+      config.set('autoTitle', enabled);
+      displaySuccess(`Automatic titles ${enabled ? 'enabled' : 'disabled'}`);
+      changed = true;
+    }
+
+    if (options.titleModel) {
+      config.set('titleModel', options.titleModel);
+      displaySuccess(`Title model set to: ${options.titleModel}`);
+      changed = true;
+    }
+
+    if (options.shellPolicy) {
+      if (SHELL_POLICIES.includes(options.shellPolicy)) {
+        config.set('shellPolicy', options.shellPolicy);
+        displaySuccess(`Shell policy set to: ${options.shellPolicy}`);
+        changed = true;
+      } else {
+        displayError(`Shell policy must be one of: ${SHELL_POLICIES.join(', ')}`);
+      }
+    }
+
+    if (options.shellAllow || options.shellDisallow) {
+      const removed: string[] = options.shellDisallow || [];
+      const allowlist = Array.from(new Set([...(config.get('shellAllowlist') || []), ...(options.shellAllow || [])]))
+        .filter(pattern => !removed.includes(pattern));
+      config.set('shellAllowlist', allowlist);
+      displaySuccess(allowlist.length > 0 ? `Shell allowlist: ${allowlist.join(', ')}` : 'Shell allowlist is empty');
+      if (options.shellAllow && config.get('shellPolicy') !== 'allowlist') {
+        displayInfo('The allowlist is only used with --shell-policy allowlist');
+      }
+      changed = true;
+    }
+
+    if (options.shellTimeout !== undefined) {
+      if (options.shellTimeout > 0) {
+        config.set('shellTimeout', options.shellTimeout);
+        displaySuccess(`Shell timeout set to: ${options.shellTimeout}ms`);
+        changed = true;
+      } else {
+        displayError('Shell timeout must be a positive number');
+      }
+    }
+
+    if (options.shellMaxOutput !== undefined) {
+      if (options.shellMaxOutput > 0) {
+        config.set('shellMaxOutput', options.shellMaxOutput);
+        displaySuccess(`Shell output limit set to: ${options.shellMaxOutput} characters`);
+        changed = true;
+      } else {
+        displayError('Shell output limit must be a positive number');
+      }
+    }
+
+    if (options.workspace) {
+      try {
+        const root = await resolveWorkspace(options.workspace);
+        config.set('workspaceRoot', root);
+        displaySuccess(`Workspace set to: ${root}`);
+        changed = true;
+      } catch (error) {
+        displayError(`${error instanceof Error ? error.message : error}`);
+      }
+    }
+
     if (!changed) {
       displayInfo('No configuration changes made. Use --help to see available options.');
     }
@@ -212,21 +688,25 @@ program
 program
   .command('models')
   .description('List available Cerebras models')
-  .action(async () => {
+  .option('-p, --profile <name>', 'List the models of a provider profile')
+  .action(async (options) => {
     try {
-      if (!config.has('apiKey') && !process.env.CEREBRAS_API_KEY) {
-        displayError('API key not configured. Please run "cere config --api-key YOUR_KEY" first.');
-        process.exit(1);
+      if (options.profile) config.useProfile(options.profile);
+
+      if (!ensureApiKey()) {
+        process.exit(EXIT_CODES.config);
       }
 
       const api = new CerebrasAPI();
       const spinner = createSpinner('Fetching models...');
       spinner.start();
 
-      const models = await api.listModels();
+      const models = await api.listModels({
+        onRetry: (info) => { spinner.text = formatRetryNotice(info); }
+      });
       spinner.stop();
 
-      const currentModel = config.get('model');
+      const currentModel = config.getModel();
       console.log(getTheme().info('\n📦 Available Models:\n'));
       
       models.forEach(model => {
@@ -241,10 +721,597 @@ program
       }
     } catch (error) {
       displayError(`Failed to fetch models: ${error}`);
-      process.exit(1);
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Batch command
+program
+  .command('batch')
+  .description('Run many prompts from a JSONL file or a set of files')
+  .argument('[input]', 'JSONL file with one request per line')
+  .option('-f, --files <glob...>', 'Send each matching file as its own request')
+  .option('-t, --prompt <template>', 'Prompt for --files; {{content}}, {{file}} and {{name}} are filled in')
+  .option('--prompt-file <path>', 'Read the --files prompt template from a file')
+  .option('-o, --output <path>', 'JSONL file to write results to', 'batch-results.jsonl')
+  .option('-c, --concurrency <count>', 'Number of requests to run at once', parseInt, 4)
+  .option('--resume', 'Continue a previous run, skipping items that already succeeded')
+  .option('-s, --system <prompt>', 'System prompt for every request')
+  .option('--model <model>', 'Specify the model to use')
+  .option('--temperature <temp>', 'Set temperature (0-2)', parseFloat)
+  .option('--max-tokens <tokens>', 'Set max tokens', parseInt)
+  .option('-p, --profile <name>', 'Use a provider profile for this run')
+  .action(async (input, options) => {
+    try {
+      if (options.profile) config.useProfile(options.profile);
+
+      if (!ensureApiKey()) {
+        process.exit(EXIT_CODES.config);
+      }
+
+      if (!input === !options.files) {
+        displayError('Give either a JSONL input file or --files <glob>');
+        process.exit(EXIT_CODES.error);
+      }
+
+      if (!(options.concurrency > 0)) {
+        displayError('Concurrency must be a positive number');
+        process.exit(EXIT_CODES.error);
+      }
+
+      const defaults = {
+        model: options.model || config.getModel(),
+        system: options.system,
+        temperature: options.temperature ?? (config.get('temperature') || 0.7),
+        max_tokens: options.maxTokens ?? (config.get('maxTokens') || 1024)
+      };
+
+      let items: BatchItem[];
+      if (input) {
+        items = await loadJsonlItems(input, defaults);
+      } else {
+        const template = options.promptFile
+          ? await fs.readFile(options.promptFile, 'utf-8')
+          : options.prompt;
+        if (!template) {
+          displayError('--files needs a prompt. Use --prompt or --prompt-file');
+          process.exit(EXIT_CODES.error);
+        }
+        items = await loadFileItems(options.files, template, defaults);
+      }
+
+      const completed = await prepareOutput(options.output, !!options.resume);
+      const pending = items.filter(item => !completed.has(item.id));
+
+      if (completed.size > 0) {
+        displayInfo(`Resuming: ${items.length - pending.length} of ${items.length} items already done`);
+      }
+      if (pending.length === 0) {
+        displaySuccess(`Nothing to do. Results are in ${options.output}`);
+        return;
+      }
+
+      const api = new CerebrasAPI();
+      const spinner = createSpinner(`Processing 0/${pending.length}...`);
+      spinner.start();
+
+      const controller = new AbortController();
+      process.on('SIGINT', () => controller.abort());
+
+      const results = await runBatch(api, pending, options.output, {
+        concurrency: options.concurrency,
+        signal: controller.signal,
+        onResult: (_result, progress) => {
+          const failed = progress.failed > 0 ? ` (${progress.failed} failed)` : '';
+          spinner.text = `Processing ${progress.done}/${progress.total}${failed}...`;
+        },
+        onRetry: (item, info) => { spinner.text = `${item.id}: ${formatRetryNotice(info)}`; }
+      });
+      spinner.stop();
+
+      const failures = results.filter(result => result.status === 'error');
+      failures.forEach(result => displayError(`${result.id}: ${result.error}`));
+
+      let usage = emptyUsage();
+      let cost: number | undefined = 0;
+      for (const result of results) {
+        if (!result.usage) continue;
+        usage = addUsage(usage, result.usage);
+        const itemCost = estimateCost(result.model, result.usage);
+        cost = cost === undefined || itemCost === undefined ? undefined : cost + itemCost;
+      }
+
+      const succeeded = results.length - failures.length;
+      const summary = `${succeeded} succeeded, ${failures.length} failed · ${usage.total_tokens} tokens (~${formatCost(cost)})`;
+
+      if (controller.signal.aborted) {
+        displayWarning(`Batch interrupted after ${results.length} of ${pending.length} items: ${summary}`);
+        displayInfo(`Run again with --resume to continue. Results are in ${options.output}`);
+        process.exit(EXIT_CODES.interrupted);
+      }
+
+      displaySuccess(`Batch complete: ${summary}`);
+      displayInfo(`Results written to ${options.output}`);
+      if (failures.length > 0) {
+        displayInfo('Run again with --resume to retry the failed items');
+        process.exit(EXIT_CODES.error);
+      }
+    } catch (error) {
+      displayError(`Batch failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Template commands
+const templateCommand = program
+  .command('template')
+  .description('Manage reusable prompt templates');
+
+templateCommand
+  .command('list', { isDefault: true })
+  .description('List saved templates')
+  .action(async () => {
+    const templates = await new TemplateManager().listTemplates();
+    if (templates.length === 0) {
+      displayInfo('No templates yet. Add one with "cere template add <name>"');
+      return;
+    }
+
+    printTemplates(templates);
+  });
+
+templateCommand
+  .command('show <name>')
+  .description('Show a template')
+  .action(async (name) => {
+    try {
+      const manager = new TemplateManager();
+      const text = await manager.readTemplateFile(name);
+      const variables = getTemplateVariables(await manager.getTemplate(name));
+
+      console.log(getTheme().info(`\n📝 ${name}\n`));
+      console.log(text.trimEnd());
+      console.log();
+      if (variables.length > 0) {
+        displayInfo(`Variables: ${variables.join(', ')}`);
+      }
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+templateCommand
+  .command('add <name> [file]')
+  .description('Add a template from a Markdown or YAML file, piped input, a session, or options')
+  .option('-s, --system <prompt>', 'System prompt')
+  .option('--prompt <prompt>', 'First message to send')
+  .option('--model <model>', 'Model to use')
+  .option('--temperature <temp>', 'Temperature (0-2)', parseFloat)
+  .option('--max-tokens <tokens>', 'Max tokens', parseInt)
+  .option('-d, --description <text>', 'Short description shown in the list')
+  .option('--from <session>', 'Save the turns of a session file or saved session id as the template')
+  .option('-f, --force', 'Replace an existing template')
+  .action(async (name, file, options) => {
+    try {
+      const manager = new TemplateManager();
+      let added: boolean;
+
+      const stdin = file || options.from ? undefined : await readStdin();
+      if (options.from) {
+        const template = templateFromMessages(name, await loadReplaySource(options.from));
+        added = await manager.saveTemplate({ ...template, description: options.description }, options.force);
+      } else if (file || stdin) {
+        const text = file ? await fs.readFile(file, 'utf-8') : stdin!;
+        const format = file && /\.ya?ml$/i.test(file) ? 'yaml' : 'md';
+        added = await manager.addTemplate(name, text, format, options.force);
+      } else if (options.system || options.prompt) {
+        const template = {
+          name,
+          description: options.description,
+          system: options.system,
+          model: options.model,
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+          prompt: options.prompt
+        };
+        added = await manager.saveTemplate(template, options.force);
+      } else {
+        displayError('Give a template file, pipe one in, or use --system and/or --prompt');
+        process.exit(EXIT_CODES.error);
+      }
+
+      if (!added) {
+        displayError(`Template already exists: ${name}. Use --force to replace it`);
+        process.exit(EXIT_CODES.error);
+      }
+      displaySuccess(`Template saved: ${name}`);
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+templateCommand
+  .command('rm <name>')
+  .description('Delete a template')
+  .action(async (name) => {
+    try {
+      if (await new TemplateManager().removeTemplate(name)) {
+        displaySuccess(`Template removed: ${name}`);
+      } else {
+        displayError(`Unknown template: ${name}`);
+        process.exit(EXIT_CODES.error);
+      }
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Replay command
+program
+  .command('replay <source>')
+  .description('Send the turns of a saved conversation or template again and compare the replies')
+  .option('--model <model>', 'Replay against another model')
+  .option('--temperature <temp>', 'Set temperature (0-2)', parseFloat)
+  .option('--max-tokens <tokens>', 'Set max tokens', parseInt)
+  .option('-p, --profile <name>', 'Use a provider profile for this run')
+  .option('--var <variable...>', 'Set template variables (name=value)')
+  .option('--isolate', 'Answer each turn after the saved replies instead of the new ones')
+  .option('-o, --output <file>', 'Write the side-by-side comparison to a file')
+  .option('--width <columns>', 'Width of each column of the comparison', parseInt)
+  .option('--json', 'Print the turns as JSON')
+  .action(async (source, options) => {
+    try {
+      if (options.profile) config.useProfile(options.profile);
+
+      if (!ensureApiKey()) {
+        process.exit(EXIT_CODES.config);
+      }
+
+      const messages = await loadReplaySource(source, parseVariables(options.var || []));
+      if (!messages.some(message => message.role === 'user')) {
+        displayError(`${source} has no messages to replay`);
+        process.exit(EXIT_CODES.error);
+      }
+
+      const api = new CerebrasAPI();
+      const spinner = createSpinner('Replaying...');
+      if (!options.json) spinner.start();
+
+      const controller = new AbortController();
+      process.on('SIGINT', () => controller.abort());
+
+      const turns = await replayConversation(api, messages, {
+        model: options.model || config.getModel(),
+        temperature: options.temperature ?? (config.get('temperature') || 0.7),
+        max_tokens: options.maxTokens ?? (config.get('maxTokens') || 1024),
+        isolate: options.isolate,
+        signal: controller.signal,
+        onRetry: (info) => { spinner.text = formatRetryNotice(info); },
+        onTurn: (turn, total) => { spinner.text = `Replaying turn ${Math.min(turn.index + 1, total)}/${total}...`; }
+      });
+      spinner.stop();
+
+      if (options.json) {
+        process.stdout.write(JSON.stringify(turns, null, 2) + '\n');
+      } else {
+        const width = options.width || Math.max(30, Math.floor(((process.stdout.columns || 120) - 3) / 2));
+        console.log();
+        console.log(formatReplayReport(turns, width, !!process.stdout.isTTY));
+      }
+
+      if (options.output) {
+        await fs.writeFile(options.output, formatReplayReport(turns, options.width || 60), 'utf-8');
+      }
+
+      const compared = turns.filter(turn => turn.original !== undefined);
+      const changed = compared.filter(isChanged).length;
+      const tokens = turns.reduce((total, turn) => total + (turn.usage?.total_tokens || 0), 0);
+      if (!options.json) {
+        displayInfo(`${changed} of ${compared.length} saved replies changed · ${tokens} tokens`);
+        if (options.output) displayInfo(`Comparison written to ${options.output}`);
+      }
+    } catch (error) {
+      if (isCancellation(error)) {
+        process.exit(EXIT_CODES.interrupted);
+      }
+      displayError(`Replay failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Search command
+program
+  .command('search [query...]')
+  .description('Search saved conversations')
+  .option('--role <role>', 'Only match messages from a role (user, assistant, system, tool)')
+  .option('--model <model>', 'Only conversations with replies from a model')
+  .option('--tag <tag>', 'Only conversations with a tag')
+  .option('--since <date>', 'Only messages from this date on (YYYY-MM-DD or e.g. 7d)')
+  .option('--until <date>', 'Only messages up to this date (YYYY-MM-DD)')
+  .option('-e, --regex', 'Treat the query as a regular expression')
+  .option('-n, --limit <count>', 'Show at most this many conversations', parseInt, 20)
+  .option('--json', 'Print the results as JSON')
+  .option('--reindex', 'Rebuild the search index first')
+  .action(async (words: string[], options) => {
+    try {
+      const index = new SearchIndex();
+      if (options.reindex) {
+        const count = await index.rebuild();
+        if (!options.json) displayInfo(`Indexed ${count} conversations`);
+      }
+
+      // Inline filters like "role:user" work here too; options win
+      const { query, options: inline } = parseSearchQuery(words.join(' '));
+      const search = {
+        ...inline,
+        ...(options.role && { role: options.role }),
+        ...(options.model && { model: options.model }),
+        ...(options.tag && { tag: options.tag }),
+        ...(options.since && { since: parseDateFilter(options.since) }),
+        ...(options.until && { until: parseDateFilter(options.until, true) }),
+        ...(options.regex && { regex: true }),
+        limit: options.limit
+      };
+      if (search.role && !MESSAGE_ROLES.includes(search.role)) {
+        throw new Error(`Invalid role "${search.role}". Use ${MESSAGE_ROLES.join(', ')}`);
+      }
+
+      if (!query && !search.role && !search.model && !search.tag && !search.since && !search.until) {
+        if (options.reindex) return;
+        displayError('Give a search query or a filter such as --tag or --since');
+        process.exit(EXIT_CODES.error);
+      }
+
+      const results = await index.search(query, search);
+      if (options.json) {
+        process.stdout.write(JSON.stringify(results, null, 2) + '\n');
+      } else if (results.length === 0) {
+        displayInfo('No matches found');
+      } else {
+        printSearchResults(results, query, search.regex);
+        displayInfo('Open one with "cere chat" and /history');
+      }
+    } catch (error) {
+      displayError(`Search failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
     }
   });
 
+// History command
+const historyCommand = program
+  .command('history')
+  .description('List, show, delete, export and resume saved conversations');
+
+historyCommand
+  .command('list [text...]', { isDefault: true })
+  .description('List saved conversations with their titles, tags and models')
+  .option('--tag <tag>', 'Only conversations with a tag')
+  .option('--model <model>', 'Only conversations using a model')
+  .option('--since <date>', 'Only conversations saved from this date on (YYYY-MM-DD or e.g. 7d)')
+  .option('--until <date>', 'Only conversations saved up to this date (YYYY-MM-DD)')
+  .option('-n, --limit <count>', 'Show at most this many conversations', parseInt, 20)
+  .option('--json', 'Print the conversations as JSON')
+  .action(async (words: string[], options) => {
+    try {
+      const sessions = filterSessions(await new ConversationManager().listSessions(), {
+        tag: options.tag,
+        model: options.model,
+        since: options.since ? parseDateFilter(options.since) : undefined,
+        until: options.until ? parseDateFilter(options.until, true) : undefined,
+        text: words.join(' ') || undefined
+      }).slice(0, options.limit);
+
+      if (options.json) {
+        process.stdout.write(JSON.stringify(sessions, null, 2) + '\n');
+      } else if (sessions.length === 0) {
+        displayInfo('No conversations found');
+      } else {
+        printSessions(sessions);
+      }
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+historyCommand
+  .command('show <id>')
+  .description('Show a saved conversation')
+  .option('--json', 'Print the saved session as JSON')
+  .action(async (id, options) => {
+    try {
+      const session = await new ConversationManager().readSession(id);
+      if (options.json) {
+        process.stdout.write(JSON.stringify(session, null, 2) + '\n');
+        return;
+      }
+
+      const theme = getTheme();
+      const summary = summarizeSession(session);
+      console.log(theme.info(`\n🗂  ${summary.title || '(untitled)'}\n`));
+      console.log(theme.system(`  id: ${summary.id}`));
+      console.log(theme.system(`  saved: ${formatTimestamp(new Date(summary.date))}`));
+      console.log(theme.system(`  messages: ${summary.messageCount}`));
+      if (session.settings) {
+        const { profile, model, temperature, maxTokens } = session.settings;
+        console.log(theme.system(`  model: ${model} (profile ${profile}, temperature ${temperature}, max tokens ${maxTokens})`));
+      } else if (summary.model) {
+        console.log(theme.system(`  model: ${summary.model}`));
+      }
+      if (summary.tags.length > 0) {
+        console.log(theme.system(`  tags: ${summary.tags.join(', ')}`));
+      }
+      const system = session.messages.find(message => message.role === 'system');
+      if (system) {
+        console.log(theme.system(`  system: ${system.content}`));
+      }
+
+      printTranscript(session.messages);
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+historyCommand
+  .command('rm <ids...>')
+  .description('Delete saved conversations')
+  .action(async (ids: string[]) => {
+    const conversation = new ConversationManager();
+    let failed = false;
+    for (const id of ids) {
+      try {
+        await conversation.deleteSession(id);
+        displaySuccess(`Deleted conversation: ${id}`);
+      } catch (error) {
+        displayError(`${error instanceof Error ? error.message : error}`);
+        failed = true;
+      }
+    }
+    if (failed) process.exit(EXIT_CODES.error);
+  });
+
+historyCommand
+  .command('prune')
+  .description('Delete conversations last saved before a date or age')
+  .requiredOption('--older-than <age>', 'Age such as 30d, or a date (YYYY-MM-DD)')
+  .option('--dry-run', 'List the conversations that would be deleted')
+  .action(async (options) => {
+    try {
+      const cutoff = parseDateFilter(options.olderThan);
+      const pruned = await new ConversationManager().pruneSessions(cutoff, options.dryRun);
+
+      if (pruned.length === 0) {
+        displayInfo('No conversations to delete');
+      } else if (options.dryRun) {
+        pruned.forEach(session => console.log(`  ${session.id}  ${describeSession(session)}`));
+        displayInfo(`${pruned.length} conversation${pruned.length === 1 ? '' : 's'} would be deleted`);
+      } else {
+        displaySuccess(`Deleted ${pruned.length} conversation${pruned.length === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+historyCommand
+  .command('export <id>')
+  .description('Export a saved conversation (to stdout unless --output is given)')
+  .option('-f, --format <format>', `Output format (${EXPORT_FORMATS.join(', ')}); defaults to the --output extension or md`)
+  .option('-o, --output <file>', 'Write to a file')
+  .action(async (id, options) => {
+    try {
+      const format = options.format || (options.output && getExportFormat(options.output)) || 'md';
+      if (!EXPORT_FORMATS.includes(format)) {
+        throw new ConfigError(`Invalid format "${format}". Use ${EXPORT_FORMATS.join(', ')}`);
+      }
+
+      const session = await new ConversationManager().readSession(id);
+      if (options.output) {
+        if (!(await FileOperations.saveConversation(session, options.output, format))) {
+          process.exit(EXIT_CODES.error);
+        }
+      } else {
+        process.stdout.write(formatConversation(session, format));
+      }
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+historyCommand
+  .command('resume <id>')
+  .description('Continue a saved conversation in interactive chat')
+  .option('-p, --profile <name>', 'Use a provider profile for this session')
+  .action(async (id, options) => {
+    try {
+      if (options.profile) config.useProfile(options.profile);
+      if (!ensureApiKey()) {
+        process.exit(EXIT_CODES.config);
+      }
+
+      const chat = new InteractiveChat();
+      await chat.resumeSession(id);
+      displayBanner();
+      await chat.start([], undefined, false);
+    } catch (error) {
+      displayError(`${error instanceof Error ? error.message : error}`);
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Import command
+program
+  .command('import <files...>')
+  .description('Import conversations from cere exports, OpenAI messages JSON or ChatGPT conversations.json')
+  .option('--tag <tag...>', 'Tag the imported conversations')
+  .option('-f, --force', 'Replace conversations that were imported before')
+  .action(async (files: string[], options) => {
+    const conversation = new ConversationManager();
+    let imported = 0;
+    let skipped = 0;
+    let failed = false;
+
+    for (const file of files) {
+      try {
+        const { format, conversations } = parseImport(await fs.readFile(file, 'utf-8'));
+        for (const item of conversations) {
+          if (!item.messages.some(message => message.role === 'user' || message.role === 'assistant')) {
+            continue;
+          }
+
+          const session = toSession(item, format, options.tag || []);
+          if (await conversation.addSession(session, options.force)) {
+            imported++;
+            console.log(`  ${session.id}  ${describeSession(summarizeSession(session))}`);
+          } else {
+            skipped++;
+          }
+        }
+      } catch (error) {
+        displayError(`${file}: ${error instanceof Error ? error.message : error}`);
+        failed = true;
+      }
+    }
+
+    displaySuccess(`Imported ${imported} conversation${imported === 1 ? '' : 's'}`);
+    if (skipped > 0) {
+      displayInfo(`${skipped} already imported; use --force to replace them`);
+    }
+    if (failed) process.exit(EXIT_CODES.error);
+  });
+
+// Usage command
+program
+  .command('usage')
+  .description('Show token usage and estimated cost from conversation history')
+  .option('--days <days>', 'Only include the last N days', parseInt)
+  .option('--model <model>', 'Only include a specific model')
+  .action(async (options) => {
+    const conversation = new ConversationManager();
+    const sessions = await conversation.loadAllSessions();
+
+    const since = options.days ? new Date(Date.now() - options.days * 24 * 60 * 60 * 1000) : undefined;
+    const rows = summarizeUsage(
+      sessions.map(session => ({ ...session, messages: getSessionMessages(session) })),
+      { model: options.model, since }
+    );
+
+    if (rows.length === 0) {
+      displayInfo('No token usage recorded yet');
+      return;
+    }
+
+    console.log(getTheme().info('\n📊 Token Usage:\n'));
+    printUsageTable(rows);
+    console.log();
+  });
+
 // Init command for first-time setup
 program
   .command('init')
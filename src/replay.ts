@@ -0,0 +1,191 @@
+import fs from 'fs/promises';
+import { CerebrasAPI, ChatMessage, RequestOptions, Usage } from './api.js';
+import { ConversationManager, SessionData } from './conversation.js';
+import { formatSideBySide, sideBySide } from './diff.js';
+import { ConfigError } from './errors.js';
+import { TemplateManager, askForVariables, renderTemplate, splitTurns } from './templates.js';
+import { getTheme } from './utils.js';
+
+export interface ReplayTurn {
+  // 1-based number of the user turn
+  index: number;
+  user: string;
+  // The reply saved in the session, if any
+  original?: string;
+  originalModel?: string;
+  reply: string;
+  model: string;
+  usage?: Usage;
+}
+
+export interface ReplayOptions extends RequestOptions {
+  model: string;
+  temperature?: number;
+  max_tokens?: number;
+  // Answer each turn after the original replies instead of the new ones
+  isolate?: boolean;
+  onTurn?: (turn: ReplayTurn, total: number) => void;
+}
+
+/**
+ * Messages to replay from a session file, a saved session id, or a
+ * (multi-turn) prompt template, tried in that order. Template variables not
+ * in `values` are asked for.
+ */
+export async function loadReplaySource(source: string, values: Record<string, string> = {}): Promise<ChatMessage[]> {
+  let session: SessionData | undefined;
+  let content: string | undefined;
+  try {
+    content = await fs.readFile(source, 'utf-8');
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw new ConfigError(`Cannot read session file ${source}: ${error.message}`);
+    }
+  }
+
+  if (content !== undefined) {
+    try {
+      session = JSON.parse(content);
+    } catch (error) {
+      throw new ConfigError(`Invalid JSON in session file ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!Array.isArray(session?.messages)) {
+      throw new ConfigError(`${source} is not a saved conversation`);
+    }
+  }
+
+  if (!session && !source.includes('/') && !source.endsWith('.json')) {
+    try {
+      session = await new ConversationManager().readSession(source);
+    } catch {
+      // Not a saved session; try a template next
+    }
+  }
+
+  if (session) {
+    if (!Array.isArray(session.messages)) {
+      throw new ConfigError(`${source} is not a saved conversation`);
+    }
+    return session.messages;
+  }
+
+  const manager = new TemplateManager();
+  if (source.includes('/') || !(await manager.findTemplate(source))) {
+    throw new ConfigError(`No session file, saved session or template named ${source}`);
+  }
+
+  const template = await manager.getTemplate(source);
+  const rendered = renderTemplate(template, await askForVariables(template, values));
+  return [
+    ...(rendered.system ? [{ role: 'system' as const, content: rendered.system }] : []),
+    ...splitTurns(rendered.prompt).map(content => ({ role: 'user' as const, content }))
+  ];
+}
+
+/**
+ * The final assistant reply to the user message at `index`, skipping the
+ * intermediate tool-call rounds.
+ */
+function findOriginalReply(messages: ChatMessage[], index: number): ChatMessage | undefined {
+  let reply: ChatMessage | undefined;
+  for (let i = index + 1; i < messages.length && messages[i].role !== 'user'; i++) {
+    if (messages[i].role === 'assistant' && messages[i].content) {
+      reply = messages[i];
+    }
+  }
+  return reply;
+}
+
+/**
+ * Send every user turn of a conversation again, in order, and collect the
+ * new replies next to the saved ones. Tools are not offered, so tool rounds
+ * of the original conversation are not repeated.
+ */
+export async function replayConversation(
+  api: CerebrasAPI,
+  messages: ChatMessage[],
+  options: ReplayOptions
+): Promise<ReplayTurn[]> {
+  const total = messages.filter(message => message.role === 'user').length;
+  const history: ChatMessage[] = [];
+  const turns: ReplayTurn[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (message.role === 'system') {
+      history.push({ role: 'system', content: message.content });
+      continue;
+    }
+    if (message.role !== 'user') continue;
+
+    history.push({ role: 'user', content: message.content });
+    const original = findOriginalReply(messages, i);
+
+    const response = await api.chatCompletion(
+      {
+        model: options.model,
+        messages: history,
+        temperature: options.temperature,
+        max_tokens: options.max_tokens
+      },
+      { onRetry: options.onRetry, signal: options.signal }
+    );
+    const reply = response.choices[0]?.message.content || '';
+
+    const turn: ReplayTurn = {
+      index: turns.length + 1,
+      user: message.content,
+      original: original?.content,
+      originalModel: original?.metadata?.model,
+      reply,
+      model: response.model || options.model,
+      usage: response.usage
+    };
+    turns.push(turn);
+    options.onTurn?.(turn, total);
+
+    history.push({
+      role: 'assistant',
+      content: options.isolate && original ? original.content : reply
+    });
+  }
+
+  return turns;
+}
+
+export function isChanged(turn: ReplayTurn): boolean {
+  return turn.original !== undefined && turn.original.trim() !== turn.reply.trim();
+}
+
+/**
+ * Side-by-side report of the saved and new replies, one section per turn.
+ * With `color`, changed lines are highlighted for the terminal.
+ */
+export function formatReplayReport(turns: ReplayTurn[], width: number, color: boolean = false): string {
+  const theme = getTheme();
+  const paint = (text: string, marker: string) => {
+    if (!color) return text;
+    if (marker === '<') return theme.error(text);
+    if (marker === '>') return theme.success(text);
+    if (marker === '|') return theme.warning(text);
+    return text;
+  };
+
+  const sections = turns.map(turn => {
+    const status = turn.original === undefined ? 'new' : isChanged(turn) ? 'changed' : 'unchanged';
+    const header = `=== Turn ${turn.index} (${status}) ${'='.repeat(Math.max(0, width * 2 - 20))}`;
+    const lines = [
+      color ? theme.info(header) : header,
+      `You: ${turn.user}`,
+      '',
+      `${`Saved${turn.originalModel ? ` (${turn.originalModel})` : ''}`.padEnd(width)}   Replay (${turn.model})`,
+      `${'-'.repeat(width)}   ${'-'.repeat(width)}`
+    ];
+
+    const rows = sideBySide(turn.original ?? '', turn.reply, width);
+    rows.forEach(row => lines.push(paint(formatSideBySide([row], width), row.marker)));
+    return lines.join('\n');
+  });
+
+  return sections.join('\n\n') + '\n';
+}
@@ -0,0 +1,124 @@
+export interface RetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  reason: string;
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+const RETRYABLE_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ERR_NETWORK'
+]);
+
+const BASE_DELAY = 500;
+
+export function isRetryableError(error: any): boolean {
+  const status = error?.response?.status;
+  if (status) {
+    return RETRYABLE_STATUS.has(status) || status >= 500;
+  }
+  return RETRYABLE_CODES.has(error?.code);
+}
+
+export function describeRetryReason(error: any): string {
+  const status = error?.response?.status;
+  if (status === 429) return 'Rate limited';
+  if (status) return `Server error (${status})`;
+  return `Network error (${error?.code || 'unknown'})`;
+}
+
+/**
+ * Parse a rate-limit duration: plain seconds ("2", "0.5") or Go-style
+ * durations as sent by OpenAI-compatible servers ("1m30s", "250ms").
+ * Returns milliseconds, or undefined if the value is not understood.
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed) * 1000;
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0 || parts.map(part => part[0]).join('') !== trimmed) {
+    return undefined;
+  }
+  return parts.reduce((total, [, amount, unit]) => total + parseFloat(amount) * units[unit], 0);
+}
+
+/**
+ * Delay the server asked for, from `Retry-After`, `retry-after-ms` or the
+ * `x-ratelimit-reset-*` header of an exhausted `x-ratelimit-remaining-*` limit.
+ */
+export function getServerRetryDelay(headers: Record<string, any> = {}): number | undefined {
+  const retryAfterMs = headers['retry-after-ms'];
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const resets: number[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    if (!name.startsWith('x-ratelimit-reset-')) continue;
+
+    const limit = name.substring('x-ratelimit-reset-'.length);
+    if (String(headers[`x-ratelimit-remaining-${limit}`]) !== '0') continue;
+
+    const delay = parseDuration(String(value));
+    if (delay !== undefined) {
+      resets.push(delay);
+    }
+  }
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Exponential backoff with equal jitter, capped at `maxDelay`.
+ */
+export function getBackoffDelay(attempt: number, maxDelay: number): number {
+  const delay = Math.min(maxDelay, BASE_DELAY * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early with an AbortError if the
+ * signal fires.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      // DOMException is not a global before Node 17
+      const error = new Error('Request cancelled');
+      error.name = 'AbortError';
+      reject(error);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
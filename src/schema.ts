@@ -0,0 +1,366 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CerebrasAPI,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  RequestOptions,
+  ResponseFormat,
+  Usage
+} from './api.js';
+import { ConfigError, SchemaValidationError } from './errors.js';
+import { addUsage } from './usage.js';
+
+/**
+ * The part of JSON Schema that is checked locally. Other keywords are
+ * passed on to the API but ignored by validateSchema.
+ */
+export interface JSONSchema {
+  type?: string | string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  definitions?: Record<string, JSONSchema>;
+  title?: string;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+export interface StructuredReply {
+  value: unknown;
+  response: ChatCompletionResponse;
+  // Tokens used across all attempts
+  usage?: Usage;
+  attempts: number;
+}
+
+export interface StructuredReplyOptions extends RequestOptions {
+  // Name of the response format, such as the schema file name
+  name?: string;
+  onInvalid?: (errors: string[], attempt: number) => void;
+}
+
+// The first request plus two retries with the validation errors fed back
+const MAX_SCHEMA_ATTEMPTS = 3;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function resolveRef(ref: string, root: JSONSchema): JSONSchema {
+  if (!ref.startsWith('#/')) {
+    throw new ConfigError(`Only local schema references are supported: ${ref}`);
+  }
+
+  let target: any = root;
+  for (const part of ref.substring(2).split('/')) {
+    const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target && typeof target === 'object' && Object.hasOwn(target, key) ? target[key] : undefined;
+  }
+  if (!target || typeof target !== 'object') {
+    throw new ConfigError(`Unresolved schema reference: ${ref}`);
+  }
+  return target;
+}
+
+function validateNode(value: unknown, schema: JSONSchema, at: string, root: JSONSchema, errors: string[]): void {
+  if (schema.$ref) {
+    validateNode(value, resolveRef(schema.$ref, root), at, root, errors);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${at}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${at}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${at}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${at}: must match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}: must be <= ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push(`${at}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push(`${at}: must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, `${at}[${index}]`, root, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!Object.hasOwn(object, key)) {
+        errors.push(`${at}: missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, property] of Object.entries(object)) {
+      const propertySchema = schema.properties && Object.hasOwn(schema.properties, key) ? schema.properties[key] : undefined;
+      if (propertySchema) {
+        validateNode(property, propertySchema, `${at}.${key}`, root, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(property, schema.additionalProperties, `${at}.${key}`, root, errors);
+      }
+    }
+  }
+
+  for (const sub of schema.allOf || []) {
+    validateNode(value, sub, at, root, errors);
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(sub => validateSchema(value, sub, root).length === 0)) {
+    errors.push(`${at}: does not match any of the allowed schemas`);
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(sub => validateSchema(value, sub, root).length === 0).length;
+    if (matches !== 1) {
+      errors.push(`${at}: must match exactly one of the allowed schemas (matched ${matches})`);
+    }
+  }
+}
+
+/**
+ * Throw if a schema leads back to itself through `$ref`, `allOf`, `anyOf`
+ * and `oneOf` alone. They apply to the same value, so validating it would
+ * never end.
+ */
+function checkCycles(schema: JSONSchema, root: JSONSchema, active: JSONSchema[], done: Set<JSONSchema>): void {
+  if (done.has(schema)) return;
+  if (active.includes(schema)) {
+    // Each schema holds the reference to the next; start with the one back into this schema
+    const cycle = active.slice(active.indexOf(schema));
+    const refs = [cycle[cycle.length - 1], ...cycle.slice(0, -1)].map(node => node.$ref).filter(Boolean);
+    throw new ConfigError(`Circular schema reference: ${[...refs, refs[0]].join(' -> ')}`);
+  }
+
+  const next = schema.$ref
+    ? [resolveRef(schema.$ref, root)]
+    : [...(schema.allOf || []), ...(schema.anyOf || []), ...(schema.oneOf || [])];
+  for (const sub of next) {
+    if (sub && typeof sub === 'object') checkCycles(sub, root, [...active, schema], done);
+  }
+  done.add(schema);
+}
+
+function checkNode(schema: JSONSchema, root: JSONSchema, at: string, seen: Set<JSONSchema>, done: Set<JSONSchema>): void {
+  if (!schema || typeof schema !== 'object' || seen.has(schema)) return;
+  seen.add(schema);
+
+  checkCycles(schema, root, [], done);
+  if (schema.$ref) {
+    checkNode(resolveRef(schema.$ref, root), root, schema.$ref, seen, done);
+  }
+
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern, 'u');
+    } catch (error) {
+      throw new ConfigError(`Invalid pattern in schema at ${at}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const children: Array<[string, unknown]> = [
+    ['items', schema.items],
+    ['additionalProperties', schema.additionalProperties],
+    ...Object.entries(schema.properties || {}).map(([key, sub]): [string, unknown] => [`properties/${key}`, sub]),
+    ...Object.entries(schema.$defs || {}).map(([key, sub]): [string, unknown] => [`$defs/${key}`, sub]),
+    ...Object.entries(schema.definitions || {}).map(([key, sub]): [string, unknown] => [`definitions/${key}`, sub]),
+    ...(['allOf', 'anyOf', 'oneOf'] as const).flatMap(keyword =>
+      (schema[keyword] || []).map((sub, index): [string, unknown] => [`${keyword}/${index}`, sub])
+    )
+  ];
+  for (const [pointer, sub] of children) {
+    checkNode(sub as JSONSchema, root, `${at}/${pointer}`, seen, done);
+  }
+}
+
+/**
+ * Check that a schema can be validated against: every `$ref` resolves
+ * without going round in circles and every `pattern` is a valid regular
+ * expression. Problems are the schema's fault, not the reply's, so they are
+ * thrown as a ConfigError.
+ */
+export function checkSchema(schema: JSONSchema): void {
+  checkNode(schema, schema, '#', new Set(), new Set());
+}
+
+/**
+ * Check a value against a schema. Returns one message per problem, each
+ * starting with the path of the offending value ("$" is the root).
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, root: JSONSchema = schema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, '$', root, errors);
+  return errors;
+}
+
+export async function loadSchema(filePath: string): Promise<JSONSchema> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read schema file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    const schema = JSON.parse(content);
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      throw new Error('a schema must be a JSON object');
+    }
+    checkSchema(schema);
+    return schema;
+  } catch (error) {
+    throw new ConfigError(`Invalid schema file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function toResponseFormat(schema: JSONSchema, name: string = 'response'): ResponseFormat {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      // The API only accepts letters, digits, underscores and dashes
+      name: (schema.title || name).replace(/[^\w-]/g, '_').substring(0, 64),
+      schema
+    }
+  };
+}
+
+export function schemaName(filePath: string): string {
+  return path.basename(filePath, path.extname(filePath));
+}
+
+/**
+ * Parse a reply that should be JSON, tolerating a surrounding Markdown code
+ * fence.
+ */
+export function parseJSONReply(content: string): unknown {
+  const fenced = content.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  return JSON.parse(fenced ? fenced[1] : content);
+}
+
+/**
+ * Ask for a reply matching the schema. Replies that are not valid JSON or do
+ * not match are sent back to the model together with the problems found,
+ * until it gets them right or the attempts run out.
+ */
+export async function requestStructuredReply(
+  api: CerebrasAPI,
+  request: ChatCompletionRequest,
+  schema: JSONSchema,
+  options: StructuredReplyOptions = {}
+): Promise<StructuredReply> {
+  checkSchema(schema);
+
+  const messages = [...request.messages];
+  let usage: Usage | undefined;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_SCHEMA_ATTEMPTS; attempt++) {
+    const response = await api.chatCompletion(
+      { ...request, messages, response_format: toResponseFormat(schema, options.name) },
+      { onRetry: options.onRetry, signal: options.signal }
+    );
+    if (response.usage) usage = addUsage(usage, response.usage);
+
+    const content = response.choices[0]?.message.content || '';
+    let value: unknown;
+    try {
+      value = parseJSONReply(content);
+      errors = [];
+    } catch (error) {
+      errors = [`$: not valid JSON (${error instanceof Error ? error.message : error})`];
+    }
+
+    if (errors.length === 0) {
+      errors = validateSchema(value, schema);
+      if (errors.length === 0) {
+        return { value, response, usage, attempts: attempt };
+      }
+    }
+
+    if (attempt < MAX_SCHEMA_ATTEMPTS) {
+      options.onInvalid?.(errors, attempt);
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: 'Your reply does not match the required JSON schema:\n' +
+            errors.map(error => `- ${error}`).join('\n') +
+            '\n\nReply again with only the corrected JSON.'
+        }
+      );
+    }
+  }
+
+  throw new SchemaValidationError(
+    `Reply did not match the schema after ${MAX_SCHEMA_ATTEMPTS} attempts`,
+    errors
+  );
+}
@@ -0,0 +1,485 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { ChatMessage } from './api.js';
+import { SessionData, getSessionMessages } from './conversation.js';
+import { getTheme, formatTimestamp } from './utils.js';
+
+export interface SearchFilters {
+  role?: ChatMessage['role'];
+  since?: Date;
+  until?: Date;
+  // Conversations with at least one reply from this model
+  model?: string;
+  tag?: string;
+}
+
+export interface SearchOptions extends SearchFilters {
+  // Treat the query as a case-insensitive regular expression
+  regex?: boolean;
+  // Most conversations to return
+  limit?: number;
+}
+
+export interface MessageHit {
+  messageIndex: number;
+  role: ChatMessage['role'];
+  score: number;
+  snippet: string;
+}
+
+export interface SessionHit {
+  sessionId: string;
+  date: string;
+  title?: string;
+  tags: string[];
+  score: number;
+  hits: MessageHit[];
+}
+
+interface IndexedSession {
+  date: string;
+  mtimeMs: number;
+  title?: string;
+  tags: string[];
+  models: string[];
+  messages: Array<{ role: ChatMessage['role']; timestamp?: string }>;
+  // Terms of this session, to remove its postings when it changes
+  terms: string[];
+}
+
+interface IndexData {
+  version: number;
+  sessions: Record<string, IndexedSession>;
+  // term -> session id -> message index -> occurrences
+  postings: Record<string, Record<string, Record<number, number>>>;
+}
+
+const INDEX_VERSION = 1;
+export const MESSAGE_ROLES = ['system', 'user', 'assistant', 'tool'];
+
+/**
+ * An object keyed by words or session ids. Without a prototype, words like
+ * "constructor" and "__proto__" are ordinary keys.
+ */
+function dictionary<T>(entries: Record<string, T> = {}): Record<string, T> {
+  return Object.assign(Object.create(null), entries);
+}
+
+function emptyIndex(): IndexData {
+  return { version: INDEX_VERSION, sessions: dictionary(), postings: dictionary() };
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+/**
+ * A date filter: an ISO date or a number of days back ("7d"). Date-only
+ * upper bounds include the whole day.
+ */
+export function parseDateFilter(value: string, endOfDay: boolean = false): Date {
+  const relative = value.match(/^(\d+)d$/);
+  if (relative) {
+    return new Date(Date.now() - parseInt(relative[1]) * 24 * 60 * 60 * 1000);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}". Use YYYY-MM-DD or a number of days like 7d`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Split inline filters such as "role:user", "model:x", "tag:y", "since:7d"
+ * and "until:2024-06-30" from a search query. A query written as /pattern/
+ * is a regular expression.
+ */
+export function parseSearchQuery(input: string): { query: string; options: SearchOptions } {
+  const options: SearchOptions = {};
+  const words: string[] = [];
+
+  for (const word of input.split(/\s+/).filter(Boolean)) {
+    const filter = word.match(/^(role|model|tag|since|until):(.+)$/);
+    if (!filter) {
+      words.push(word);
+      continue;
+    }
+
+    const [, key, value] = filter;
+    if (key === 'role') {
+      if (!MESSAGE_ROLES.includes(value)) {
+        throw new Error(`Invalid role "${value}". Use ${MESSAGE_ROLES.join(', ')}`);
+      }
+      options.role = value as ChatMessage['role'];
+    } else if (key === 'since') {
+      options.since = parseDateFilter(value);
+    } else if (key === 'until') {
+      options.until = parseDateFilter(value, true);
+    } else {
+      options[key as 'model' | 'tag'] = value;
+    }
+  }
+
+  let query = words.join(' ');
+  const regex = query.match(/^\/(.+)\/$/);
+  if (regex) {
+    query = regex[1];
+    options.regex = true;
+  }
+  return { query, options };
+}
+
+function extractSnippet(content: string, match: { index: number; length: number }, contextLength: number = 60): string {
+  const start = Math.max(0, match.index - contextLength);
+  const end = Math.min(content.length, match.index + match.length + contextLength);
+
+  let snippet = content.substring(start, end).replace(/\s+/g, ' ');
+  if (start > 0) snippet = '...' + snippet;
+  if (end < content.length) snippet = snippet + '...';
+  return snippet.trim();
+}
+
+/**
+ * Inverted index over every message of the saved conversations, kept in
+ * ~/.cere-cli/search-index.json. saveSession keeps it current; before each
+ * search, sessions whose files changed or disappeared are re-indexed.
+ */
+export class SearchIndex {
+  private static readonly MAX_HITS_PER_SESSION = 3;
+
+  private historyDir: string;
+  private indexFile: string;
+
+  constructor(historyDir: string = path.join(os.homedir(), '.cere-cli', 'history')) {
+    this.historyDir = historyDir;
+    this.indexFile = path.join(path.dirname(historyDir), 'search-index.json');
+  }
+
+  private async load(): Promise<IndexData> {
+    try {
+      const data: IndexData = JSON.parse(await fs.readFile(this.indexFile, 'utf-8'));
+      if (data.version === INDEX_VERSION) {
+        const postings: IndexData['postings'] = dictionary();
+        for (const [term, posting] of Object.entries(data.postings)) {
+          postings[term] = dictionary(posting);
+        }
+        return { version: INDEX_VERSION, sessions: dictionary(data.sessions), postings };
+      }
+    } catch {
+      // Missing or corrupted; start over
+    }
+    return emptyIndex();
+  }
+
+  private async save(data: IndexData): Promise<void> {
+    // Write then rename so a crash never leaves half an index behind
+    const tempFile = `${this.indexFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(data));
+    await fs.rename(tempFile, this.indexFile);
+  }
+
+  private removeFrom(data: IndexData, sessionId: string): void {
+    if (!Object.hasOwn(data.sessions, sessionId)) return;
+
+    for (const term of data.sessions[sessionId].terms) {
+      if (!Object.hasOwn(data.postings, term)) continue;
+      const posting = data.postings[term];
+      delete posting[sessionId];
+      if (Object.keys(posting).length === 0) delete data.postings[term];
+    }
+    delete data.sessions[sessionId];
+  }
+
+  private addTo(data: IndexData, session: SessionData, mtimeMs: number): void {
+    this.removeFrom(data, session.id);
+
+    const messages = getSessionMessages(session);
+    const terms = new Set<string>();
+    messages.forEach((message, index) => {
+      for (const term of tokenize(message.content || '')) {
+        terms.add(term);
+        const posting = Object.hasOwn(data.postings, term) ? data.postings[term] : (data.postings[term] = dictionary());
+        const counts = Object.hasOwn(posting, session.id) ? posting[session.id] : (posting[session.id] = {});
+        counts[index] = (counts[index] || 0) + 1;
+      }
+    });
+
+    data.sessions[session.id] = {
+      date: session.date,
+      mtimeMs,
+      title: session.title,
+      tags: session.tags || [],
+      models: Array.from(new Set(messages.map(message => message.metadata?.model).filter((model): model is string => !!model))),
+      messages: messages.map(message => ({ role: message.role, timestamp: message.metadata?.timestamp })),
+      terms: Array.from(terms)
+    };
+  }
+
+  private async readSessionFile(sessionId: string): Promise<SessionData | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.historyDir, `${sessionId}.json`), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Re-index sessions whose files changed since they were indexed, and drop
+   * sessions whose files are gone.
+   */
+  private async refresh(data: IndexData): Promise<boolean> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.historyDir)).filter(file => file.endsWith('.json'));
+    } catch {
+      files = [];
+    }
+
+    let changed = false;
+    const onDisk = new Set<string>();
+    for (const file of files) {
+      const sessionId = path.basename(file, '.json');
+      onDisk.add(sessionId);
+
+      let mtimeMs: number;
+      try {
+        mtimeMs = (await fs.stat(path.join(this.historyDir, file))).mtimeMs;
+      } catch {
+        continue;
+      }
+      if (Object.hasOwn(data.sessions, sessionId) && data.sessions[sessionId].mtimeMs === mtimeMs) continue;
+
+      const session = await this.readSessionFile(sessionId);
+      if (session && Array.isArray(session.messages)) {
+        this.addTo(data, { ...session, id: sessionId }, mtimeMs);
+      } else {
+        this.removeFrom(data, sessionId);
+      }
+      changed = true;
+    }
+
+    for (const sessionId of Object.keys(data.sessions)) {
+      if (!onDisk.has(sessionId)) {
+        this.removeFrom(data, sessionId);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Index a session that was just written to disk.
+   */
+  async updateSession(session: SessionData): Promise<void> {
+    const data = await this.load();
+    const stats = await fs.stat(path.join(this.historyDir, `${session.id}.json`));
+    this.addTo(data, session, stats.mtimeMs);
+    await this.save(data);
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    const data = await this.load();
+    if (!Object.hasOwn(data.sessions, sessionId)) return;
+    this.removeFrom(data, sessionId);
+    await this.save(data);
+  }
+
+  /**
+   * Index every saved session from scratch. Returns how many were indexed.
+   */
+  async rebuild(): Promise<number> {
+    const data = emptyIndex();
+    await this.refresh(data);
+    await this.save(data);
+    return Object.keys(data.sessions).length;
+  }
+
+  private matchesFilters(session: IndexedSession, options: SearchFilters): boolean {
+    if (options.model && !session.models.includes(options.model)) return false;
+    if (options.tag && !session.tags.includes(options.tag.toLowerCase())) return false;
+    return true;
+  }
+
+  private messageMatchesFilters(session: IndexedSession, index: number, options: SearchFilters): boolean {
+    const message = session.messages[index];
+    if (!message) return false;
+    if (options.role && message.role !== options.role) return false;
+
+    if (options.since || options.until) {
+      const timestamp = new Date(message.timestamp || session.date);
+      if (options.since && timestamp < options.since) return false;
+      if (options.until && timestamp > options.until) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Find conversations matching the query. Words are looked up in the
+   * index, also as prefixes of longer words, and ranked by TF-IDF with
+   * messages containing every word first. Regular expressions are matched against the messages of the
+   * conversations that pass the filters.
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SessionHit[]> {
+    const data = await this.load();
+    if (await this.refresh(data)) {
+      await this.save(data);
+    }
+
+    const scores = new Map<string, Map<number, number>>();
+    const addScore = (sessionId: string, index: number, score: number) => {
+      const session = scores.get(sessionId) || new Map<number, number>();
+      session.set(index, (session.get(index) || 0) + score);
+      scores.set(sessionId, session);
+    };
+
+    let pattern: RegExp | undefined;
+    let terms: string[] = [];
+
+    if (options.regex) {
+      pattern = new RegExp(query, 'gi');
+      for (const [sessionId, indexed] of Object.entries(data.sessions)) {
+        if (!this.matchesFilters(indexed, options)) continue;
+        const session = await this.readSessionFile(sessionId);
+        if (!session) continue;
+
+        getSessionMessages(session).forEach((message, index) => {
+          if (!this.messageMatchesFilters(indexed, index, options)) return;
+          // Patterns like /a*/ also match the empty string everywhere
+          const count = Array.from((message.content || '').matchAll(pattern!)).filter(match => match[0].length > 0).length;
+          if (count > 0) addScore(sessionId, index, count);
+        });
+      }
+    } else if (tokenize(query).length === 0) {
+      // Only filters: newest conversations first, with their first matching message
+      const sessions = Object.entries(data.sessions)
+        .filter(([, indexed]) => this.matchesFilters(indexed, options))
+        .sort(([, a], [, b]) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+      sessions.forEach(([sessionId, indexed], rank) => {
+        const index = indexed.messages.findIndex((_, i) => this.messageMatchesFilters(indexed, i, options));
+        if (index !== -1) addScore(sessionId, index, sessions.length - rank);
+      });
+    } else {
+      terms = Array.from(new Set(tokenize(query)));
+      const totalMessages = Object.values(data.sessions).reduce((total, session) => total + session.messages.length, 0);
+      // session id -> message index -> query words found
+      const matchedTerms = new Map<string, Map<number, Set<string>>>();
+
+      for (const term of terms) {
+        // Longer words also match as prefixes ("python" finds "pythons"), for less
+        const variants = Object.keys(data.postings)
+          .filter(indexed => indexed === term || (term.length >= 3 && indexed.startsWith(term)))
+          .map(indexed => ({ indexed, weight: indexed === term ? 1 : 0.5 }));
+
+        for (const { indexed: indexedTerm, weight } of variants) {
+          const posting = data.postings[indexedTerm];
+          const frequency = Object.values(posting).reduce((total, counts) => total + Object.keys(counts).length, 0);
+          const idf = Math.log(1 + totalMessages / Math.max(1, frequency));
+
+          for (const [sessionId, counts] of Object.entries(posting)) {
+            if (!Object.hasOwn(data.sessions, sessionId)) continue;
+            const indexed = data.sessions[sessionId];
+            if (!this.matchesFilters(indexed, options)) continue;
+
+            for (const [key, count] of Object.entries(counts)) {
+              const index = Number(key);
+              if (!this.messageMatchesFilters(indexed, index, options)) continue;
+              addScore(sessionId, index, weight * idf * (count / (count + 1)));
+
+              const matched = matchedTerms.get(sessionId) || new Map<number, Set<string>>();
+              matched.set(index, (matched.get(index) || new Set<string>()).add(term));
+              matchedTerms.set(sessionId, matched);
+            }
+          }
+        }
+      }
+
+      // Messages with every word come before those with only some of them
+      if (terms.length > 1) {
+        for (const [sessionId, matched] of matchedTerms) {
+          for (const [index, found] of matched) {
+            if (found.size === terms.length) addScore(sessionId, index, 100);
+          }
+        }
+      }
+    }
+
+    const ranked = Array.from(scores.entries())
+      .map(([sessionId, messages]) => {
+        const sorted = Array.from(messages.entries()).sort((a, b) => b[1] - a[1]);
+        return { sessionId, sorted, score: sorted[0][1] + sorted.slice(1).reduce((total, [, score]) => total + score, 0) * 0.1 };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit || 20);
+
+    const results: SessionHit[] = [];
+    for (const { sessionId, sorted, score } of ranked) {
+      const session = await this.readSessionFile(sessionId);
+      if (!session) continue;
+      const messages = getSessionMessages(session);
+
+      const hits = sorted.slice(0, SearchIndex.MAX_HITS_PER_SESSION).map(([index, messageScore]) => {
+        const content = messages[index]?.content || '';
+        return {
+          messageIndex: index,
+          role: messages[index]?.role,
+          score: messageScore,
+          snippet: extractSnippet(content, this.findMatch(content, pattern, terms))
+        };
+      });
+
+      results.push({
+        sessionId,
+        date: data.sessions[sessionId].date,
+        title: data.sessions[sessionId].title,
+        tags: data.sessions[sessionId].tags,
+        score,
+        hits
+      });
+    }
+    return results;
+  }
+
+  private findMatch(content: string, pattern: RegExp | undefined, terms: string[]): { index: number; length: number } {
+    if (pattern) {
+      const match = Array.from(content.matchAll(pattern)).find(match => match[0].length > 0);
+      if (match) return { index: match.index!, length: match[0].length };
+    }
+
+    const lower = content.toLowerCase();
+    for (const term of terms) {
+      const index = lower.indexOf(term);
+      if (index !== -1) return { index, length: term.length };
+    }
+    return { index: 0, length: 0 };
+  }
+}
+
+/**
+ * Print search results with the matched words highlighted.
+ */
+export function printSearchResults(results: SessionHit[], query: string, regex: boolean = false): void {
+  const theme = getTheme();
+  const highlight = regex
+    ? new RegExp(query, 'gi')
+    : tokenize(query).length > 0
+      ? new RegExp(tokenize(query).map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'gi')
+      : undefined;
+
+  console.log(theme.info(`\n🔍 Found ${results.length} conversation${results.length === 1 ? '' : 's'}:\n`));
+  results.forEach((result, index) => {
+    const tags = result.tags.length > 0 ? theme.system(` [${result.tags.join(', ')}]`) : '';
+    const title = result.title ? `${theme.assistant(result.title)} ` : '';
+    console.log(`${index + 1}. ${title}${formatTimestamp(new Date(result.date))} ${theme.system(result.sessionId)}${tags}`);
+    result.hits.forEach(hit => {
+      const snippet = highlight ? hit.snippet.replace(highlight, match => theme.warning(match)) : hit.snippet;
+      console.log(`   - ${hit.role}: ${snippet}`);
+    });
+    console.log();
+  });
+}
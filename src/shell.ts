@@ -0,0 +1,179 @@
+import { spawn } from 'child_process';
+import { config } from './config.js';
+
+/**
+ * How commands the model wants to run are approved: always asked about,
+ * run without asking when they match the allowlist, or never run.
+ */
+export type ShellPolicy = 'ask' | 'allowlist' | 'deny';
+
+export const SHELL_POLICIES: ShellPolicy[] = ['ask', 'allowlist', 'deny'];
+
+export interface ShellResult {
+  command: string;
+  // Null when the command was killed
+  exitCode: number | null;
+  // Combined stdout and stderr, cut in the middle when over the limit
+  output: string;
+  truncated: boolean;
+  timedOut: boolean;
+  cancelled: boolean;
+  durationMs: number;
+}
+
+export interface ShellOptions {
+  cwd?: string;
+  // Milliseconds before the command is killed
+  timeout?: number;
+  // Characters of output kept; the terminal still gets all of it
+  maxOutput?: number;
+  onOutput?: (chunk: string) => void;
+  signal?: AbortSignal;
+}
+
+// Time a killed command gets to exit before it is killed for good
+const KILL_GRACE_PERIOD = 2000;
+// Characters that chain or redirect commands. A command containing them
+// never matches the allowlist, so "git status; rm -rf ~" is still asked about.
+const SHELL_OPERATORS = /[;&|<>`$()\n]/;
+
+export function getShellPolicy(): ShellPolicy {
+  return config.get('shellPolicy');
+}
+
+/**
+ * Whether a command matches one of the allowlist patterns, where "*" stands
+ * for any text: "git status", "git diff*", "npm run *".
+ */
+export function isAllowlisted(command: string, patterns: string[] = config.get('shellAllowlist') || []): boolean {
+  const trimmed = command.trim();
+  if (SHELL_OPERATORS.test(trimmed)) return false;
+
+  return patterns.some(pattern => {
+    const source = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`).test(trimmed);
+  });
+}
+
+/**
+ * What to do with a command the model wants to run under the configured
+ * policy.
+ */
+export function checkShellCommand(command: string): 'run' | 'ask' | 'deny' {
+  const policy = getShellPolicy();
+  if (policy === 'deny') return 'deny';
+  if (policy === 'allowlist' && isAllowlisted(command)) return 'run';
+  return 'ask';
+}
+
+/**
+ * Run a command in the user's shell, streaming its output as it arrives.
+ * The command is killed, along with anything it started, when it runs past
+ * the timeout or the signal fires.
+ */
+export function runShellCommand(command: string, options: ShellOptions = {}): Promise<ShellResult> {
+  const timeout: number = options.timeout ?? config.get('shellTimeout');
+  const maxOutput: number = options.maxOutput ?? config.get('shellMaxOutput');
+  const windows = process.platform === 'win32';
+  const started = Date.now();
+
+  return new Promise((resolve, reject) => {
+    // Its own process group on Unix, so the whole group can be killed
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      detached: !windows,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    // Keep the start and the end of long output
+    let head = '';
+    let tail = '';
+    let omitted = 0;
+    let timedOut = false;
+    let cancelled = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const collect = (chunk: string) => {
+      options.onOutput?.(chunk);
+
+      const room = Math.floor(maxOutput / 2) - head.length;
+      if (room > 0) {
+        head += chunk.substring(0, room);
+        tail += chunk.substring(room);
+      } else {
+        tail += chunk;
+      }
+      if (tail.length > maxOutput / 2) {
+        omitted += tail.length - Math.floor(maxOutput / 2);
+        tail = tail.substring(tail.length - Math.floor(maxOutput / 2));
+      }
+    };
+
+    const kill = () => {
+      const signal = (name: NodeJS.Signals) => {
+        try {
+          if (windows || !child.pid) child.kill(name);
+          else process.kill(-child.pid, name);
+        } catch {
+          // Already gone
+        }
+      };
+      signal('SIGTERM');
+      killTimer = setTimeout(() => signal('SIGKILL'), KILL_GRACE_PERIOD);
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeout);
+
+    const onAbort = () => {
+      cancelled = true;
+      kill();
+    };
+    if (options.signal?.aborted) onAbort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    // Decoded per stream, so characters split between chunks stay whole
+    child.stdout.setEncoding('utf-8').on('data', collect);
+    child.stderr.setEncoding('utf-8').on('data', collect);
+
+    const finish = () => {
+      clearTimeout(timer);
+      if (killTimer) clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', (error) => {
+      finish();
+      reject(error);
+    });
+
+    child.on('close', (code) => {
+      finish();
+      resolve({
+        command,
+        exitCode: code,
+        output: omitted > 0 ? `${head}\n[... ${omitted} characters omitted ...]\n${tail}` : head + tail,
+        truncated: omitted > 0,
+        timedOut,
+        cancelled,
+        durationMs: Date.now() - started
+      });
+    });
+  });
+}
+
+export function describeShellStatus(result: ShellResult): string {
+  if (result.timedOut) return `timed out after ${(result.durationMs / 1000).toFixed(1)}s`;
+  if (result.cancelled) return 'cancelled';
+  return result.exitCode === null ? 'killed' : `exit code ${result.exitCode}`;
+}
+
+/**
+ * A command and its output for a message or tool result.
+ */
+export function formatShellResult(result: ShellResult): string {
+  return `\n💻 **Command:** \`${result.command}\` (${describeShellStatus(result)})\n\`\`\`\n${result.output.replace(/\n$/, '')}\n\`\`\`\n`;
+}
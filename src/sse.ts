@@ -0,0 +1,139 @@
+import { StringDecoder } from 'string_decoder';
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * Incremental Server-Sent Events decoder following the WHATWG event stream
+ * format: LF, CR and CRLF line endings, comment lines, multi-line `data:`
+ * fields and the `event`, `id` and `retry` fields.
+ *
+ * Bytes are decoded with a StringDecoder so multi-byte UTF-8 characters split
+ * across network chunks come through intact.
+ */
+export class SSEDecoder {
+  private decoder = new StringDecoder('utf8');
+  private buffer = '';
+  private data: string[] = [];
+  private eventType = '';
+  private lastEventId?: string;
+  private retry?: number;
+
+  /**
+   * Feed raw bytes from the response and return every event they complete.
+   */
+  push(chunk: Buffer | string): SSEEvent[] {
+    this.buffer += typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+    return this.processBuffer(false);
+  }
+
+  /**
+   * Signal the end of the stream. Unlike the spec, an event without a
+   * trailing blank line is still dispatched, as some servers close the
+   * connection right after the last `data:` line.
+   */
+  flush(): SSEEvent[] {
+    this.buffer += this.decoder.end();
+    const events = this.processBuffer(true);
+
+    if (this.buffer) {
+      this.processLine(this.buffer);
+      this.buffer = '';
+    }
+
+    const event = this.dispatch();
+    if (event) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  private processBuffer(final: boolean): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\r' && char !== '\n') continue;
+
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (char === '\r' && i === this.buffer.length - 1 && !final) break;
+
+      const line = this.buffer.substring(start, i);
+      if (char === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    this.buffer = this.buffer.substring(start);
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    // Comment lines are used as keep-alives
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    let value = colon === -1 ? '' : line.substring(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    if (this.data.length === 0) {
+      this.eventType = '';
+      return null;
+    }
+
+    const event: SSEEvent = {
+      event: this.eventType || 'message',
+      data: this.data.join('\n'),
+      ...(this.lastEventId !== undefined && { id: this.lastEventId }),
+      ...(this.retry !== undefined && { retry: this.retry })
+    };
+
+    this.data = [];
+    this.eventType = '';
+    return event;
+  }
+}
@@ -0,0 +1,79 @@
+import { ChatCompletionChunk, ChatCompletionResponse, Usage } from './api.js';
+import { ToolCall } from './tools.js';
+
+/**
+ * Rebuilds a complete chat completion from streamed chunks.
+ *
+ * Tool calls arrive as fragments keyed by `index`: the first fragment carries
+ * the id and function name, later ones append to `function.arguments`.
+ */
+export class StreamAccumulator {
+  private id = '';
+  private created = 0;
+  private model = '';
+  private content = '';
+  private toolCalls: ToolCall[] = [];
+  private finishReason: string | null = null;
+  private usage?: Usage;
+
+  /**
+   * Merge a chunk into the response and return its content delta, if any.
+   */
+  push(chunk: ChatCompletionChunk): string {
+    if (chunk.id) this.id = chunk.id;
+    if (chunk.created) this.created = chunk.created;
+    if (chunk.model) this.model = chunk.model;
+    if (chunk.usage) this.usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) return '';
+
+    if (choice.finish_reason) {
+      this.finishReason = choice.finish_reason;
+    }
+
+    for (const fragment of choice.delta?.tool_calls || []) {
+      const index = fragment.index ?? this.toolCalls.length;
+      const toolCall = this.toolCalls[index] ??= {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' }
+      };
+
+      if (fragment.id) toolCall.id = fragment.id;
+      if (fragment.function?.name) toolCall.function.name += fragment.function.name;
+      if (fragment.function?.arguments) toolCall.function.arguments += fragment.function.arguments;
+    }
+
+    const content = choice.delta?.content;
+    if (content) {
+      this.content += content;
+      return content;
+    }
+    return '';
+  }
+
+  toResponse(): ChatCompletionResponse {
+    // Indexes are not guaranteed to be contiguous
+    const toolCalls = this.toolCalls.filter(Boolean);
+
+    return {
+      id: this.id,
+      object: 'chat.completion',
+      created: this.created,
+      model: this.model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: this.content,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls })
+          },
+          finish_reason: this.finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop')
+        }
+      ],
+      ...(this.usage && { usage: this.usage })
+    };
+  }
+}
@@ -0,0 +1,389 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import inquirer from 'inquirer';
+import { ChatMessage } from './api.js';
+import { ConfigError } from './errors.js';
+import { TEMPLATE_PLACEHOLDER, fillTemplate, getTheme } from './utils.js';
+
+/**
+ * A reusable prompt. Markdown templates keep the settings in a front-matter
+ * block and the prompt in the body; YAML templates use a "prompt" key.
+ * The system prompt and prompt may contain {{variable}} placeholders, and
+ * the prompt may hold several user turns split by TURN_SEPARATOR lines.
+ */
+export interface PromptTemplate {
+  name: string;
+  description?: string;
+  system?: string;
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  prompt?: string;
+}
+
+export interface RenderedTemplate {
+  system?: string;
+  prompt?: string;
+}
+
+// Filled in with the -m message or piped input rather than asked for
+export const INPUT_VARIABLE = 'input';
+
+// Hidden when the Markdown is rendered
+export const TURN_SEPARATOR = '<!-- turn -->';
+
+const TEMPLATE_EXTENSIONS = ['.md', '.yaml', '.yml'];
+const STRING_FIELDS = ['description', 'system', 'model', 'prompt'] as const;
+const NUMBER_FIELDS = ['temperature', 'max_tokens'] as const;
+
+function splitInlineList(value: string): string[] {
+  return (value.match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+/g) || [])
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function parseScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (value === '' || value === '~' || value === 'null') return undefined;
+  if (value.startsWith('"')) return JSON.parse(value);
+  if (value.startsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitInlineList(value.slice(1, -1)).map(parseScalar);
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  // Plain scalars may end with a comment
+  return value.replace(/\s+#.*$/, '');
+}
+
+/**
+ * Text of a "|" or ">" block scalar from its indented lines.
+ */
+function parseBlockScalar(lines: string[], indicator: string): string {
+  const indent = Math.min(
+    ...lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length)
+  );
+  const body = lines.map(line => line.substring(indent));
+  while (body.length > 0 && !body[body.length - 1].trim()) body.pop();
+
+  const text = indicator.startsWith('>')
+    ? body.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ')
+    : body.join('\n');
+  return indicator.endsWith('-') ? text : text + '\n';
+}
+
+/**
+ * Parse the flat YAML used by templates: "key: value" pairs whose values
+ * are scalars, inline [lists], "- item" lists or | and > block scalars.
+ */
+function parseYAML(text: string, source: string): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+    const match = line.match(/^([\w-]+)\s*:(?:\s+(.*))?$/);
+    if (!match) {
+      throw new ConfigError(`${source}: cannot parse line ${i + 1}: ${line}`);
+    }
+    const [, key, rest = ''] = match;
+
+    // Indented lines that follow belong to this key
+    const block: string[] = [];
+    while (i + 1 < lines.length && (!lines[i + 1].trim() || /^\s/.test(lines[i + 1]))) {
+      block.push(lines[++i]);
+    }
+
+    try {
+      if (/^[|>][+-]?$/.test(rest.trim())) {
+        data[key] = block.some(blockLine => blockLine.trim()) ? parseBlockScalar(block, rest.trim()) : '';
+      } else if (!rest.trim() && block.some(blockLine => blockLine.trim().startsWith('-'))) {
+        data[key] = block
+          .filter(blockLine => blockLine.trim())
+          .map(blockLine => parseScalar(blockLine.trim().replace(/^-\s*/, '')));
+      } else {
+        // A plain scalar may continue on the following lines
+        const continued = [rest, ...block.map(blockLine => blockLine.trim())].filter(Boolean).join(' ');
+        data[key] = parseScalar(continued);
+      }
+    } catch (error) {
+      throw new ConfigError(`${source}: invalid value for "${key}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return data;
+}
+
+function formatYAMLValue(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  if (value.includes('\n')) {
+    const lines = value.replace(/\n$/, '').split('\n');
+    return `|${value.endsWith('\n') ? '' : '-'}\n` + lines.map(line => (line ? `  ${line}` : '')).join('\n');
+  }
+  // Quote anything that would not read back as the same plain string
+  const plain = /^[^\s"'#[\]{}|>&*!%@`,:-][^#:]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    typeof parseScalar(value) === 'string';
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Parse a template file. Markdown files may start with a front-matter block
+ * between "---" lines; the rest of the file is the prompt.
+ */
+export function parseTemplate(name: string, text: string, format: 'md' | 'yaml' = 'md'): PromptTemplate {
+  let data: Record<string, unknown>;
+
+  if (format === 'yaml') {
+    data = parseYAML(text, name);
+  } else {
+    const frontMatter = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+    data = frontMatter ? parseYAML(frontMatter[1], name) : {};
+    const body = (frontMatter ? text.substring(frontMatter[0].length) : text).trim();
+    if (body) data.prompt = body;
+  }
+
+  const template: PromptTemplate = { name };
+  for (const field of STRING_FIELDS) {
+    const value = data[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new ConfigError(`${name}: "${field}" must be text`);
+    }
+    template[field] = String(value).trim();
+  }
+  for (const field of NUMBER_FIELDS) {
+    const value = data[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number') {
+      throw new ConfigError(`${name}: "${field}" must be a number`);
+    }
+    template[field] = value;
+  }
+
+  return template;
+}
+
+/**
+ * Write a template back out as Markdown with front-matter.
+ */
+export function formatTemplate(template: PromptTemplate): string {
+  const lines: string[] = [];
+  for (const field of ['description', 'model', 'temperature', 'max_tokens', 'system'] as const) {
+    const value = template[field];
+    if (value !== undefined && value !== '') {
+      lines.push(`${field}: ${formatYAMLValue(value)}`);
+    }
+  }
+
+  const frontMatter = lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n` : '';
+  return frontMatter + (template.prompt ? `${template.prompt}\n` : '');
+}
+
+/**
+ * Names of the {{variables}} used by a template, in order of appearance.
+ */
+export function getTemplateVariables(template: PromptTemplate): string[] {
+  const text = `${template.system || ''}\n${template.prompt || ''}`;
+  const names = Array.from(text.matchAll(TEMPLATE_PLACEHOLDER), match => match[1]);
+  return Array.from(new Set(names));
+}
+
+export function renderTemplate(template: PromptTemplate, values: Record<string, string>): RenderedTemplate {
+  return {
+    system: template.system && fillTemplate(template.system, values),
+    prompt: template.prompt && fillTemplate(template.prompt, values)
+  };
+}
+
+export function printTemplates(templates: PromptTemplate[]): void {
+  const theme = getTheme();
+  console.log(theme.info('\n📝 Templates:\n'));
+  templates.forEach(template => {
+    const variables = getTemplateVariables(template);
+    console.log(`  ${theme.user(template.name)}${template.description ? ` - ${template.description}` : ''}`);
+    if (variables.length > 0) {
+      console.log(theme.system(`    variables: ${variables.join(', ')}`));
+    }
+  });
+  console.log();
+}
+
+/**
+ * The user turns of a rendered prompt.
+ */
+export function splitTurns(prompt: string | undefined): string[] {
+  if (!prompt) return [];
+  return prompt
+    .split(/^[ \t]*<!--\s*turn\s*-->[ \t]*$/m)
+    .map(turn => turn.trim())
+    .filter(Boolean);
+}
+
+/**
+ * A multi-turn template from a conversation: its leading system prompt and
+ * every user message, so the conversation can be replayed.
+ */
+export function templateFromMessages(name: string, messages: ChatMessage[]): PromptTemplate {
+  const firstUser = messages.findIndex(message => message.role === 'user');
+  const system = messages
+    .slice(0, firstUser === -1 ? messages.length : firstUser)
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+  const turns = messages
+    .filter(message => message.role === 'user')
+    .map(message => message.content.trim());
+
+  return {
+    name,
+    system: system || undefined,
+    prompt: turns.join(`\n\n${TURN_SEPARATOR}\n\n`) || undefined
+  };
+}
+
+/**
+ * Parse "name=value" pairs from --var options and /template arguments.
+ */
+export function parseVariables(pairs: string[]): Record<string, string> {
+  // fromEntries, so that a variable named "__proto__" is a plain key
+  return Object.fromEntries(pairs.map(pair => {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new ConfigError(`Invalid variable "${pair}". Use name=value`);
+    }
+    return [pair.substring(0, separator).trim(), pair.substring(separator + 1)];
+  }));
+}
+
+/**
+ * Ask for the template variables that have no value yet. Without a
+ * terminal to ask on, missing variables are an error.
+ */
+export async function askForVariables(
+  template: PromptTemplate,
+  values: Record<string, string>
+): Promise<Record<string, string>> {
+  const missing = getTemplateVariables(template).filter(name => !Object.hasOwn(values, name));
+  if (missing.length === 0) return values;
+
+  if (!process.stdin.isTTY) {
+    throw new ConfigError(`Missing template variables: ${missing.join(', ')}. Pass them as name=value`);
+  }
+
+  // Answers are stored under their question's name, so ask with names
+  // inquirer cannot mistake for paths or special keys
+  const answers = await inquirer.prompt(
+    missing.map((name, index) => ({
+      type: 'input',
+      name: `variable${index}`,
+      message: `${name}:`
+    }))
+  );
+  return Object.fromEntries([
+    ...Object.entries(values),
+    ...missing.map((name, index) => [name, answers[`variable${index}`]])
+  ]);
+}
+
+export class TemplateManager {
+  private templatesDir: string;
+
+  constructor() {
+    this.templatesDir = path.join(os.homedir(), '.cere-cli', 'templates');
+  }
+
+  private validateName(name: string): void {
+    if (!/^[\w.-]+$/.test(name) || name.startsWith('.')) {
+      throw new ConfigError(`Invalid template name "${name}". Use letters, digits, dots, dashes and underscores`);
+    }
+  }
+
+  /**
+   * Path of an existing template file, whatever its extension.
+   */
+  async findTemplate(name: string): Promise<string | undefined> {
+    this.validateName(name);
+    for (const extension of TEMPLATE_EXTENSIONS) {
+      const filePath = path.join(this.templatesDir, name + extension);
+      try {
+        await fs.access(filePath);
+        return filePath;
+      } catch {
+        // Try the next extension
+      }
+    }
+    return undefined;
+  }
+
+  async readTemplateFile(name: string): Promise<string> {
+    const filePath = await this.findTemplate(name);
+    if (!filePath) {
+      throw new ConfigError(`Unknown template: ${name}. See "cere template list"`);
+    }
+    return fs.readFile(filePath, 'utf-8');
+  }
+
+  async getTemplate(name: string): Promise<PromptTemplate> {
+    const filePath = await this.findTemplate(name);
+    if (!filePath) {
+      throw new ConfigError(`Unknown template: ${name}. See "cere template list"`);
+    }
+
+    const text = await fs.readFile(filePath, 'utf-8');
+    return parseTemplate(name, text, filePath.endsWith('.md') ? 'md' : 'yaml');
+  }
+
+  async listTemplates(): Promise<PromptTemplate[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.templatesDir);
+    } catch {
+      return [];
+    }
+
+    const templates: PromptTemplate[] = [];
+    for (const file of files.sort()) {
+      const extension = path.extname(file);
+      if (!TEMPLATE_EXTENSIONS.includes(extension)) continue;
+
+      try {
+        const text = await fs.readFile(path.join(this.templatesDir, file), 'utf-8');
+        templates.push(parseTemplate(path.basename(file, extension), text, extension === '.md' ? 'md' : 'yaml'));
+      } catch {
+        // Skip unreadable templates; "cere template show" reports the problem
+      }
+    }
+    return templates;
+  }
+
+  /**
+   * Store template text as given, after checking that it parses. Returns
+   * false when a template with that name exists and overwrite is not set.
+   */
+  async addTemplate(name: string, text: string, format: 'md' | 'yaml' = 'md', overwrite: boolean = false): Promise<boolean> {
+    parseTemplate(name, text, format);
+
+    const existing = await this.findTemplate(name);
+    if (existing && !overwrite) return false;
+    if (existing) await fs.unlink(existing);
+
+    await fs.mkdir(this.templatesDir, { recursive: true });
+    await fs.writeFile(path.join(this.templatesDir, `${name}.${format}`), text, 'utf-8');
+    return true;
+  }
+
+  async saveTemplate(template: PromptTemplate, overwrite: boolean = false): Promise<boolean> {
+    return this.addTemplate(template.name, formatTemplate(template), 'md', overwrite);
+  }
+
+  async removeTemplate(name: string): Promise<boolean> {
+    const filePath = await this.findTemplate(name);
+    if (!filePath) return false;
+    await fs.unlink(filePath);
+    return true;
+  }
+}
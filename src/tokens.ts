@@ -0,0 +1,41 @@
+import { ChatMessage } from './api.js';
+import { config } from './config.js';
+
+export const DEFAULT_CONTEXT_SIZE = 8192;
+
+// Context windows on Cerebras; override with "cere config --context-size"
+export const MODEL_CONTEXT_SIZES: Record<string, number> = {
+  'llama3.1-8b': 8192,
+  'llama-3.3-70b': 65536,
+  'llama-4-scout-17b-16e-instruct': 32768,
+  'qwen-3-32b': 65536
+};
+
+// Roles, separators and other per-message framing added by the chat template
+const MESSAGE_OVERHEAD = 4;
+
+export function getContextSize(model: string): number {
+  return { ...MODEL_CONTEXT_SIZES, ...config.get('contextSizes') }[model] || DEFAULT_CONTEXT_SIZE;
+}
+
+/**
+ * Rough token count without a tokenizer: about four characters per token
+ * for English text, but never fewer tokens than words.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(Math.ceil(text.length / 4), words);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD + estimateTokens(message.content);
+  if (message.tool_calls) {
+    tokens += estimateTokens(JSON.stringify(message.tool_calls));
+  }
+  return tokens;
+}
+
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
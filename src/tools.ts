@@ -1,5 +1,5 @@
-import { ChatMessage } from './api.js';
-import { displayInfo, displayWarning } from './utils.js';
+import { checkShellCommand, formatShellResult, getShellPolicy, runShellCommand } from './shell.js';
+import { FileChange, Workspace } from './workspace.js';
 
 export interface ToolFunction {
   name: string;
@@ -86,17 +86,134 @@ export const BUILT_IN_TOOLS: Record<string, ToolFunction> = {
       },
       required: ['type']
     }
+  },
+  read_file: {
+    name: 'read_file',
+    description: 'Read a text file in the workspace. Large files are cut down to their first and last lines; use start_line and end_line to read other parts',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File path, relative to the workspace root'
+        },
+        start_line: {
+          type: 'number',
+          description: 'First line to read (1-based)'
+        },
+        end_line: {
+          type: 'number',
+          description: 'Last line to read (inclusive). Defaults to the end of the file'
+        }
+      },
+      required: ['path']
+    }
+  },
+  list_directory: {
+    name: 'list_directory',
+    description: 'List the files and directories in a workspace directory, skipping files ignored by .gitignore',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Directory path, relative to the workspace root. Defaults to the root'
+        },
+        recursive: {
+          type: 'boolean',
+          description: 'Include the contents of subdirectories'
+        }
+      }
+    }
+  },
+  search_files: {
+    name: 'search_files',
+    description: 'Search the text files in the workspace for lines matching a regular expression, like grep',
+    parameters: {
+      type: 'object',
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'JavaScript regular expression to search for'
+        },
+        path: {
+          type: 'string',
+          description: 'Directory to search in, relative to the workspace root. Defaults to the root'
+        },
+        glob: {
+          type: 'string',
+          description: 'Only search files matching this glob, relative to path (e.g. "**/*.ts")'
+        },
+        ignore_case: {
+          type: 'boolean',
+          description: 'Match case-insensitively'
+        }
+      },
+      required: ['pattern']
+    }
+  },
+  write_file: {
+    name: 'write_file',
+    description: 'Create or overwrite a text file in the workspace with the given content. The user reviews a diff and must approve the change',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File path, relative to the workspace root'
+        },
+        content: {
+          type: 'string',
+          description: 'The complete new content of the file'
+        }
+      },
+      required: ['path', 'content']
+    }
+  },
+  run_shell: {
+    name: 'run_shell',
+    description: 'Run a shell command in the workspace directory and get its exit code and output (stdout and stderr combined). The user may have to approve the command. Commands cannot read input and are killed when they run too long',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: {
+          type: 'string',
+          description: 'The command line to run, e.g. "git status" or "npm test"'
+        }
+      },
+      required: ['command']
+    }
   }
 };
 
+export interface ToolManagerOptions {
+  // Directory the file tools are confined to; the current directory by default
+  workspaceRoot?: string;
+  // Asked before write_file changes a file. Without it, writes are refused
+  confirmWrite?: (change: FileChange) => Promise<boolean>;
+  // Asked before run_shell runs a command that the shell policy does not
+  // allow outright. Without it, such commands are refused
+  confirmCommand?: (command: string) => Promise<boolean>;
+  // Receives the output of run_shell commands as it arrives
+  onShellOutput?: (chunk: string) => void;
+}
+
 export class ToolManager {
   private tools: Map<string, ToolFunction> = new Map();
-  private handlers: Map<string, (args: any) => Promise<string> | string> = new Map();
+  private handlers: Map<string, (args: any, signal?: AbortSignal) => Promise<string> | string> = new Map();
+  private workspace: Workspace;
+  private options: ToolManagerOptions;
 
-  constructor() {
+  constructor(options: ToolManagerOptions = {}) {
+    this.workspace = new Workspace(options.workspaceRoot);
+    this.options = options;
     this.registerBuiltInTools();
   }
 
+  getWorkspaceRoot(): string {
+    return this.workspace.root;
+  }
+
   private registerBuiltInTools(): void {
     // Calculator
     this.registerTool(BUILT_IN_TOOLS.calculate, (args: { expression: string }) => {
@@ -153,15 +270,75 @@ export class ToolManager {
           return 'Invalid type specified';
       }
     });
+
+    // File system, confined to the workspace
+    this.registerTool(BUILT_IN_TOOLS.read_file, (args: { path: string; start_line?: number; end_line?: number }) => {
+      const range = args.start_line || args.end_line
+        ? { start: args.start_line || 1, end: args.end_line }
+        : undefined;
+      return this.workspace.readFile(args.path, range);
+    });
+
+    this.registerTool(BUILT_IN_TOOLS.list_directory, (args: { path?: string; recursive?: boolean }) => {
+      return this.workspace.listDirectory(args.path, args.recursive);
+    });
+
+    this.registerTool(BUILT_IN_TOOLS.search_files, (args: { pattern: string; path?: string; glob?: string; ignore_case?: boolean }) => {
+      return this.workspace.searchFiles(args.pattern, {
+        path: args.path,
+        glob: args.glob,
+        ignoreCase: args.ignore_case
+      });
+    });
+
+    this.registerTool(BUILT_IN_TOOLS.write_file, async (args: { path: string; content: string }) => {
+      if (typeof args.content !== 'string') {
+        return 'Error: content must be the complete file content as a string';
+      }
+      const change = await this.workspace.prepareWrite(args.path, args.content);
+      if (change.oldContent === change.newContent) {
+        return `${change.relativePath} already has this content; nothing written`;
+      }
+      if (!this.options.confirmWrite || !(await this.options.confirmWrite(change))) {
+        return `The user declined the change to ${change.relativePath}; nothing written`;
+      }
+
+      await this.workspace.applyWrite(change);
+      const lines = change.newContent.split('\n').length - (change.newContent.endsWith('\n') ? 1 : 0);
+      return `${change.oldContent === undefined ? 'Created' : 'Updated'} ${change.relativePath} (${lines} lines)`;
+    });
+
+    // Shell commands, unless the policy forbids them
+    if (getShellPolicy() !== 'deny') {
+      this.registerTool(BUILT_IN_TOOLS.run_shell, async (args: { command: string }, signal?: AbortSignal) => {
+        if (typeof args.command !== 'string' || !args.command.trim()) {
+          return 'Error: command must be a non-empty string';
+        }
+
+        const decision = checkShellCommand(args.command);
+        if (decision === 'deny') {
+          return 'Running shell commands is disabled by the user';
+        }
+        if (decision === 'ask' && (!this.options.confirmCommand || !(await this.options.confirmCommand(args.command)))) {
+          return `The user declined to run \`${args.command}\``;
+        }
+
+        const result = await runShellCommand(args.command, {
+          cwd: this.workspace.root,
+          onOutput: this.options.onShellOutput,
+          signal
+        });
+        return formatShellResult(result);
+      });
+    }
   }
 
   registerTool(
     tool: ToolFunction,
-    handler: (args: any) => Promise<string> | string
+    handler: (args: any, signal?: AbortSignal) => Promise<string> | string
   ): void {
     this.tools.set(tool.name, tool);
     this.handlers.set(tool.name, handler);
-    displayInfo(`Registered tool: ${tool.name}`);
   }
 
   getTools(): Tool[] {
@@ -171,7 +348,7 @@ export class ToolManager {
     }));
   }
 
-  async executeTool(toolCall: ToolCall): Promise<ToolResponse> {
+  async executeTool(toolCall: ToolCall, signal?: AbortSignal): Promise<ToolResponse> {
     const handler = this.handlers.get(toolCall.function.name);
     
     if (!handler) {
@@ -184,7 +361,7 @@ export class ToolManager {
 
     try {
       const args = JSON.parse(toolCall.function.arguments);
-      const result = await handler(args);
+      const result = await handler(args, signal);
       
       return {
         role: 'tool',
@@ -0,0 +1,129 @@
+import { ChatMessage, Usage } from './api.js';
+import { config, ModelPrice } from './config.js';
+import { getTheme, truncateString } from './utils.js';
+
+// Cerebras on-demand pricing; override or extend with "cere config --price"
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'llama3.1-8b': { input: 0.1, output: 0.1 },
+  'llama-3.3-70b': { input: 0.85, output: 1.2 },
+  'llama-4-scout-17b-16e-instruct': { input: 0.65, output: 0.85 },
+  'qwen-3-32b': { input: 0.4, output: 0.8 }
+};
+
+export interface UsageSummary {
+  day: string;
+  model: string;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost?: number;
+}
+
+export function emptyUsage(): Usage {
+  return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+}
+
+export function addUsage(a: Usage | undefined, b: Usage | undefined): Usage {
+  return {
+    prompt_tokens: (a?.prompt_tokens || 0) + (b?.prompt_tokens || 0),
+    completion_tokens: (a?.completion_tokens || 0) + (b?.completion_tokens || 0),
+    total_tokens: (a?.total_tokens || 0) + (b?.total_tokens || 0)
+  };
+}
+
+export function getPrice(model: string): ModelPrice | undefined {
+  return { ...DEFAULT_PRICES, ...config.get('prices') }[model];
+}
+
+/**
+ * Estimated cost in USD, or undefined when the model has no known price.
+ */
+export function estimateCost(model: string, usage: Usage): number | undefined {
+  const price = getPrice(model);
+  if (!price) return undefined;
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
+
+/**
+ * Estimated cost of the assistant replies in a conversation, or undefined
+ * if any of them used a model without a known price.
+ */
+export function estimateMessagesCost(messages: ChatMessage[]): number | undefined {
+  let total = 0;
+  for (const message of messages) {
+    const usage = message.metadata?.usage;
+    if (!usage) continue;
+
+    const cost = estimateCost(message.metadata?.model || '', usage);
+    if (cost === undefined) return undefined;
+    total += cost;
+  }
+  return total;
+}
+
+export function formatCost(cost: number | undefined): string {
+  if (cost === undefined) return 'n/a';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Group the usage recorded on assistant messages by day and model.
+ * Messages without a timestamp are attributed to their session's date.
+ */
+export function summarizeUsage(
+  sessions: Array<{ date: string; messages: ChatMessage[] }>,
+  filter: { model?: string; since?: Date } = {}
+): UsageSummary[] {
+  const rows = new Map<string, UsageSummary>();
+
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      const usage = message.metadata?.usage;
+      if (message.role !== 'assistant' || !usage) continue;
+
+      const timestamp = new Date(message.metadata?.timestamp || session.date);
+      if (filter.since && timestamp < filter.since) continue;
+
+      const model = message.metadata?.model || 'unknown';
+      if (filter.model && model !== filter.model) continue;
+
+      const day = timestamp.toISOString().split('T')[0];
+      const key = `${day}|${model}`;
+      const row = rows.get(key) || { day, model, requests: 0, ...emptyUsage() };
+
+      rows.set(key, {
+        ...row,
+        ...addUsage(row, usage),
+        requests: row.requests + 1
+      });
+    }
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, cost: estimateCost(row.model, row) }))
+    .sort((a, b) => b.day.localeCompare(a.day) || a.model.localeCompare(b.model));
+}
+
+export function printUsageTable(rows: UsageSummary[]): void {
+  const theme = getTheme();
+  const header = `  ${'Day'.padEnd(12)}${'Model'.padEnd(32)}${'Requests'.padStart(9)}${'Prompt'.padStart(10)}${'Completion'.padStart(12)}${'Total'.padStart(10)}${'Cost'.padStart(11)}`;
+  console.log(theme.system(header));
+
+  const format = (row: Omit<UsageSummary, 'day' | 'model'>, day: string, model: string) =>
+    `  ${day.padEnd(12)}${truncateString(model, 30).padEnd(32)}${String(row.requests).padStart(9)}` +
+    `${String(row.prompt_tokens).padStart(10)}${String(row.completion_tokens).padStart(12)}` +
+    `${String(row.total_tokens).padStart(10)}${formatCost(row.cost).padStart(11)}`;
+
+  rows.forEach(row => console.log(format(row, row.day, row.model)));
+
+  const total = rows.reduce(
+    (sum, row) => ({
+      ...addUsage(sum, row),
+      requests: sum.requests + row.requests,
+      cost: sum.cost === undefined || row.cost === undefined ? undefined : sum.cost + row.cost
+    }),
+    { ...emptyUsage(), requests: 0, cost: 0 as number | undefined }
+  );
+  console.log(theme.info(format(total, 'Total', '')));
+}
@@ -1,3 +1,4 @@
+import fs from 'fs';
 import chalk from 'chalk';
 import gradient from 'gradient-string';
 import figlet from 'figlet';
@@ -141,9 +142,43 @@ export async function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
-export function formatTokenUsage(usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }): string {
+export function formatTokenUsage(
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number },
+  session?: { total_tokens: number; cost?: string }
+): string {
   const theme = getTheme();
-  return theme.info(`\n📊 Token Usage: ${usage.prompt_tokens} prompt + ${usage.completion_tokens} completion = ${usage.total_tokens} total`);
+  let text = `\n📊 Token Usage: ${usage.prompt_tokens} prompt + ${usage.completion_tokens} completion = ${usage.total_tokens} total`;
+  if (session) {
+    text += ` · Session: ${session.total_tokens} tokens` + (session.cost ? ` (~${session.cost})` : '');
+  }
+  return theme.info(text);
+}
+
+/**
+ * Read all of stdin when it is a pipe or a file, or when `force` asks for
+ * it ("-m -"). Anything else, such as a terminal or the stdin that CI, cron
+ * and ssh leave open, would never end. Empty input counts as none.
+ */
+export async function readStdin(force: boolean = false): Promise<string | undefined> {
+  if (!force) {
+    let stats: fs.Stats;
+    try {
+      stats = fs.fstatSync(0);
+    } catch {
+      return undefined;
+    }
+    if (!stats.isFIFO() && !stats.isFile()) return undefined;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8') || undefined;
+}
+
+export function formatRetryNotice(info: { attempt: number; maxAttempts: number; delay: number; reason: string }): string {
+  return `${info.reason}, retrying in ${(info.delay / 1000).toFixed(1)}s (attempt ${info.attempt + 1}/${info.maxAttempts})...`;
 }
 
 export function truncateString(str: string, maxLength: number): string {
@@ -157,3 +192,16 @@ export function formatTimestamp(date: Date): string {
     timeStyle: 'short'
   }).format(date);
 }
+
+// A {{name}} placeholder. Names are letters, digits, "_" and "-"
+export const TEMPLATE_PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Replace {{name}} placeholders with values. Unknown placeholders are left
+ * as they are.
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(TEMPLATE_PLACEHOLDER, (match, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : match
+  );
+}
@@ -0,0 +1,262 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FileOperations, LineRange } from './file-operations.js';
+import { GitIgnore, expandGlob } from './glob.js';
+
+/**
+ * A change to a file, waiting for approval. `oldContent` is missing for a
+ * new file.
+ */
+export interface FileChange {
+  path: string;
+  relativePath: string;
+  oldContent?: string;
+  newContent: string;
+}
+
+/**
+ * A path the file tools may not use: outside the workspace, reached through
+ * a symlink that leads out of it, or inside `.git`.
+ */
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+const MAX_LIST_ENTRIES = 500;
+const MAX_SEARCH_MATCHES = 100;
+const MAX_MATCH_LENGTH = 200;
+// Not descended into by recursive listings
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * The directory tree the model's file tools work in. Every path is resolved
+ * against the root, with symlinks followed, and refused when it ends up
+ * outside of it.
+ */
+export class Workspace {
+  readonly root: string;
+  private realRoot?: string;
+
+  constructor(root: string = process.cwd()) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * The real path of `target`, relative to the workspace root unless
+   * absolute. The target itself need not exist, so that new files can be
+   * written.
+   */
+  async resolve(target: string): Promise<string> {
+    const root = await this.getRealRoot();
+    let existing = path.resolve(root, target);
+    const missing: string[] = [];
+
+    // Follow symlinks in the part of the path that exists
+    for (;;) {
+      try {
+        existing = await fs.realpath(existing);
+        break;
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+        if (await this.isSymlink(existing)) {
+          throw new WorkspaceError(`${target} is a symlink to a missing file`);
+        }
+        missing.unshift(path.basename(existing));
+        const parent = path.dirname(existing);
+        if (parent === existing) break;
+        existing = parent;
+      }
+    }
+
+    const resolved = path.join(existing, ...missing);
+    if (!isInside(root, resolved)) {
+      throw new WorkspaceError(`${target} is outside the workspace (${this.root})`);
+    }
+    return resolved;
+  }
+
+  relative(filePath: string): string {
+    return path.relative(this.realRoot || this.root, filePath) || '.';
+  }
+
+  /**
+   * A text file, or the given lines of it. Large files come back as their
+   * first and last lines.
+   */
+  async readFile(target: string, range?: LineRange): Promise<string> {
+    const filePath = await this.resolve(target);
+    const result = await FileOperations.tryReadFile(filePath, { range, truncate: true });
+    if (!result.file) {
+      throw new WorkspaceError(result.error || `Cannot read ${target}`);
+    }
+
+    const details = [
+      result.file.excerpt,
+      result.file.encoding !== 'utf-8' && `decoded from ${result.file.encoding}`
+    ].filter(Boolean).join(', ');
+    return `${this.relative(filePath)}${details ? ` (${details})` : ''}:\n${result.file.content}`;
+  }
+
+  /**
+   * The entries of a directory, one per line: directories end in "/",
+   * files show their size. Files ignored by .gitignore are left out.
+   */
+  async listDirectory(target: string = '.', recursive: boolean = false): Promise<string> {
+    const dir = await this.resolve(target);
+    const stats = await fs.stat(dir);
+    if (!stats.isDirectory()) {
+      throw new WorkspaceError(`${target} is not a directory`);
+    }
+
+    const ignore = await GitIgnore.forDirectory(dir);
+    const lines: string[] = [];
+    let truncated = false;
+
+    const walk = async (current: string, prefix: string): Promise<void> => {
+      await ignore.addDirectory(current);
+      const entries = (await fs.readdir(current, { withFileTypes: true }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const entry of entries) {
+        const entryPath = path.join(current, entry.name);
+        if (entry.name === '.git' || ignore.isIgnored(entryPath, entry.isDirectory())) continue;
+        if (lines.length >= MAX_LIST_ENTRIES) {
+          truncated = true;
+          return;
+        }
+
+        const name = `${prefix}${entry.name}`;
+        if (entry.isDirectory()) {
+          lines.push(`${name}/`);
+          if (recursive && !SKIPPED_DIRS.has(entry.name)) {
+            await walk(entryPath, `${name}/`);
+          }
+        } else if (entry.isSymbolicLink()) {
+          lines.push(`${name}@`);
+        } else {
+          const { size } = await fs.stat(entryPath);
+          lines.push(`${name} (${size} bytes)`);
+        }
+      }
+    };
+
+    await walk(dir, '');
+    if (lines.length === 0) return `${this.relative(dir)} is empty`;
+    if (truncated) lines.push(`... (stopped after ${MAX_LIST_ENTRIES} entries)`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Lines matching a regular expression, as "file:line: text", in the text
+   * files below a directory, optionally only those matching a glob.
+   */
+  async searchFiles(
+    pattern: string,
+    options: { path?: string; glob?: string; ignoreCase?: boolean } = {}
+  ): Promise<string> {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, options.ignoreCase ? 'i' : '');
+    } catch (error) {
+      throw new WorkspaceError(`Invalid pattern: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // Globs are relative to the search directory and stay below it
+    const glob = options.glob || '**/*';
+    if (path.isAbsolute(glob) || glob.split(/[\\/]/).includes('..')) {
+      throw new WorkspaceError(`Invalid glob "${glob}": use a pattern relative to the search directory, without ".."`);
+    }
+
+    const dir = await this.resolve(options.path || '.');
+    const files = await expandGlob(glob, dir, { gitignore: true });
+    const matches: string[] = [];
+
+    for (const file of files) {
+      // The glob may point elsewhere, directly or through a symlink
+      let filePath: string;
+      try {
+        filePath = await this.resolve(path.resolve(dir, file));
+      } catch {
+        continue;
+      }
+
+      // Binary and large files are skipped
+      const result = await FileOperations.tryReadFile(filePath);
+      if (!result.file) continue;
+
+      const lines = result.file.content.split('\n');
+      for (let i = 0; i < lines.length; i++) {
+        if (!regex.test(lines[i])) continue;
+        if (matches.length >= MAX_SEARCH_MATCHES) {
+          matches.push(`... (stopped after ${MAX_SEARCH_MATCHES} matches)`);
+          return matches.join('\n');
+        }
+        const text = lines[i].trim();
+        matches.push(`${this.relative(filePath)}:${i + 1}: ${text.length > MAX_MATCH_LENGTH ? `${text.substring(0, MAX_MATCH_LENGTH)}...` : text}`);
+      }
+    }
+
+    return matches.length > 0 ? matches.join('\n') : `No matches for /${pattern}/ in ${files.length} files`;
+  }
+
+  /**
+   * Check a write and return the change it would make, without making it.
+   */
+  async prepareWrite(target: string, content: string): Promise<FileChange> {
+    const filePath = await this.resolve(target);
+    const relativePath = this.relative(filePath);
+    // Case-insensitive filesystems also reach .git as ".GIT"
+    if (relativePath.split(path.sep).some(segment => segment.toLowerCase() === '.git')) {
+      throw new WorkspaceError(`Writing inside .git is not allowed: ${relativePath}`);
+    }
+
+    let oldContent: string | undefined;
+    try {
+      const stats = await fs.stat(filePath);
+      if (!stats.isFile()) {
+        throw new WorkspaceError(`${relativePath} is not a file`);
+      }
+      const result = await FileOperations.tryReadFile(filePath);
+      if (!result.file) {
+        throw new WorkspaceError(`Will not overwrite ${relativePath}: ${result.error}`);
+      }
+      oldContent = result.file.content;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    return { path: filePath, relativePath, oldContent, newContent: content };
+  }
+
+  async applyWrite(change: FileChange): Promise<void> {
+    await fs.mkdir(path.dirname(change.path), { recursive: true });
+    await fs.writeFile(change.path, change.newContent, 'utf-8');
+  }
+
+  private async getRealRoot(): Promise<string> {
+    if (!this.realRoot) {
+      try {
+        this.realRoot = await fs.realpath(this.root);
+      } catch {
+        throw new WorkspaceError(`Workspace directory does not exist: ${this.root}`);
+      }
+    }
+    return this.realRoot;
+  }
+
+  private async isSymlink(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.lstat(filePath)).isSymbolicLink();
+    } catch {
+      return false;
+    }
+  }
+}
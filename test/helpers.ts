@@ -0,0 +1,21 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export function readFixture(name: string): Buffer {
+  return fs.readFileSync(path.join(fixturesDir, name));
+}
+
+/**
+ * A buffer cut into pieces of `size` bytes, the way a slow network would
+ * deliver it: lines, CRLF pairs and UTF-8 characters end up split.
+ */
+export function splitBytes(buffer: Buffer, size: number): Buffer[] {
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < buffer.length; i += size) {
+    chunks.push(buffer.subarray(i, i + size));
+  }
+  return chunks;
+}
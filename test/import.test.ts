@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseImport } from '../src/import.js';
+
+const messages = [
+  { role: 'user', content: 'Hi' },
+  { role: 'assistant', content: 'Hello!' }
+];
+
+const tree = {
+  nodes: [
+    { id: 'a', parentId: null, message: messages[0] },
+    { id: 'b', parentId: 'a', message: messages[1] },
+    { id: 'c', parentId: 'a', message: { role: 'assistant', content: 'Hey!' } }
+  ],
+  branches: [
+    { id: 'main', name: 'main', headId: 'b', createdAt: '2026-01-01T00:00:00.000Z' },
+    { id: 'retry', name: 'retry-1', headId: 'c', createdAt: '2026-01-01T00:01:00.000Z' }
+  ],
+  currentBranch: 'main'
+};
+
+function importTree(value: unknown) {
+  const session = { id: '1718031234567', date: '2026-01-01T00:00:00.000Z', messages, tree: value };
+  return parseImport(JSON.stringify(session)).conversations[0];
+}
+
+describe('session imports', () => {
+  it('keeps a valid conversation tree', () => {
+    assert.deepEqual(importTree(tree).tree, tree);
+  });
+
+  it('drops trees that do not hold together', () => {
+    const broken: Record<string, unknown> = {
+      'not an object': 'tree',
+      'no branches': { ...tree, branches: [] },
+      'unknown current branch': { ...tree, currentBranch: 'gone' },
+      'missing parent': { ...tree, nodes: [...tree.nodes, { id: 'd', parentId: 'x', message: messages[0] }] },
+      'parent cycle': { ...tree, nodes: [{ id: 'a', parentId: 'b', message: messages[0] }, { id: 'b', parentId: 'a', message: messages[1] }] },
+      'duplicate node': { ...tree, nodes: [...tree.nodes, tree.nodes[0]] },
+      'missing branch head': { ...tree, branches: [{ ...tree.branches[0], headId: 'x' }] },
+      'invalid message': { ...tree, nodes: [{ id: 'a', parentId: null, message: { role: 'robot', content: 'Hi' } }] }
+    };
+
+    for (const [problem, value] of Object.entries(broken)) {
+      const conversation = importTree(value);
+      assert.equal(conversation.tree, undefined, problem);
+      assert.deepEqual(conversation.messages, messages, problem);
+    }
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ConfigError } from '../src/errors.js';
+import { loadReplaySource } from '../src/replay.js';
+
+describe('loadReplaySource', () => {
+  it('tells a session file with invalid JSON from a missing one', async () => {
+    const dir = await fs.mkdtemp(path.join(os.homedir(), 'replay-'));
+    const file = path.join(dir, 'broken.json');
+    await fs.writeFile(file, '{"messages": [');
+
+    await assert.rejects(
+      loadReplaySource(file),
+      (error: unknown) => error instanceof ConfigError && error.message.startsWith(`Invalid JSON in session file ${file}: `)
+    );
+    await assert.rejects(
+      loadReplaySource(path.join(dir, 'missing.json')),
+      (error: unknown) => error instanceof ConfigError && error.message.startsWith('No session file, saved session or template named')
+    );
+  });
+
+  it('rejects JSON that is not a conversation', async () => {
+    const file = path.join(await fs.mkdtemp(path.join(os.homedir(), 'replay-')), 'null.json');
+    await fs.writeFile(file, 'null');
+
+    await assert.rejects(loadReplaySource(file), /is not a saved conversation/);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isCancellation } from '../src/api.js';
+import { sleep } from '../src/retry.js';
+
+describe('sleep', () => {
+  it('rejects with a cancellation when the signal fires', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(60000, controller.signal);
+    controller.abort();
+
+    await assert.rejects(waiting, (error: unknown) => error instanceof Error && error.name === 'AbortError' && isCancellation(error));
+  });
+
+  it('rejects right away for a signal that already fired', async () => {
+    await assert.rejects(sleep(60000, AbortSignal.abort()), (error: unknown) => isCancellation(error));
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CerebrasAPI, ChatCompletionRequest } from '../src/api.js';
+import { ConfigError, SchemaValidationError } from '../src/errors.js';
+import { JSONSchema, checkSchema, requestStructuredReply, validateSchema } from '../src/schema.js';
+
+// Answers every request with the given replies in turn
+function fakeAPI(replies: string[]): { api: CerebrasAPI; requests: ChatCompletionRequest[] } {
+  const requests: ChatCompletionRequest[] = [];
+  const api = {
+    chatCompletion: async (request: ChatCompletionRequest) => {
+      requests.push(request);
+      const content = replies[Math.min(requests.length, replies.length) - 1];
+      return { id: '1', object: 'chat.completion', created: 0, model: 'test', choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] };
+    }
+  };
+  return { api: api as unknown as CerebrasAPI, requests };
+}
+
+const request: ChatCompletionRequest = { model: 'test', messages: [{ role: 'user', content: 'Extract' }] };
+
+describe('requestStructuredReply', () => {
+  it('reports schema errors without sending a request', async () => {
+    const broken: JSONSchema[] = [
+      { type: 'object', properties: { person: { $ref: '#/$defs/person' } } },
+      { type: 'array', items: { anyOf: [{ type: 'string', pattern: '([a-z]' }] } },
+      { $ref: 'https://example.com/schema.json' },
+      { $ref: '#/$defs/a', $defs: { a: { $ref: '#/$defs/a' } } },
+      { $ref: '#/$defs/a', $defs: { a: { allOf: [{ $ref: '#/$defs/b' }] }, b: { anyOf: [{ type: 'string' }, { $ref: '#/$defs/a' }] } } },
+      { properties: { a: { $ref: '#/$defs/__proto__' } }, $defs: {} }
+    ];
+
+    for (const schema of broken) {
+      const { api, requests } = fakeAPI(['{}']);
+      await assert.rejects(requestStructuredReply(api, request, schema), ConfigError);
+      assert.equal(requests.length, 0);
+    }
+  });
+
+  it('retries replies that are not valid JSON or do not match', async () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: { name: { $ref: '#/$defs/name' } },
+      required: ['name'],
+      $defs: { name: { type: 'string', pattern: '^[A-Z]' } }
+    };
+    const { api, requests } = fakeAPI(['not json', '{"name":"ada"}', '```json\n{"name":"Ada"}\n```']);
+
+    const reply = await requestStructuredReply(api, request, schema);
+    assert.deepEqual(reply.value, { name: 'Ada' });
+    assert.equal(reply.attempts, 3);
+    assert.match(requests[2].messages.at(-1)!.content, /\$\.name: must match/);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const { api } = fakeAPI(['[]']);
+
+    await assert.rejects(requestStructuredReply(api, request, { type: 'object' }), SchemaValidationError);
+  });
+});
+
+describe('validateSchema', () => {
+  it('does not count inherited members as required properties', () => {
+    assert.deepEqual(validateSchema({}, { type: 'object', required: ['constructor', 'toString'] }), [
+      '$: missing required property "constructor"',
+      '$: missing required property "toString"'
+    ]);
+  });
+
+  it('does not take inherited members for property schemas', () => {
+    const schema: JSONSchema = { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false };
+
+    assert.deepEqual(validateSchema({ constructor: 5 }, schema), ['$: unexpected property "constructor"']);
+    assert.deepEqual(validateSchema(JSON.parse('{"__proto__": 5}'), schema), ['$: unexpected property "__proto__"']);
+  });
+});
+
+describe('checkSchema', () => {
+  it('names the references of a cycle', () => {
+    assert.throws(
+      () => checkSchema({ $ref: '#/$defs/a', $defs: { a: { $ref: '#/$defs/b' }, b: { $ref: '#/$defs/a' } } }),
+      (error: unknown) => error instanceof ConfigError && error.message === 'Circular schema reference: #/$defs/a -> #/$defs/b -> #/$defs/a'
+    );
+  });
+
+  it('accepts recursive schemas', () => {
+    checkSchema({ $ref: '#/$defs/node', $defs: { node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } } } } });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ChatMessage } from '../src/api.js';
+import { SearchIndex } from '../src/search.js';
+
+let historyDir: string;
+
+async function saveSession(id: string, messages: ChatMessage[]): Promise<void> {
+  await fs.writeFile(path.join(historyDir, `${id}.json`), JSON.stringify({ id, date: '2026-01-01T00:00:00.000Z', messages }));
+}
+
+describe('SearchIndex', () => {
+  beforeEach(async () => {
+    historyDir = path.join(await fs.mkdtemp(path.join(os.homedir(), 'search-')), 'history');
+    await fs.mkdir(historyDir);
+  });
+
+  it('finds words that are names of Object.prototype members', async () => {
+    await saveSession('proto', [
+      { role: 'user', content: 'Why does the constructor call toString?' },
+      { role: 'assistant', content: 'Setting __proto__ changes the prototype.' }
+    ]);
+    const index = new SearchIndex(historyDir);
+
+    for (const word of ['constructor', 'tostring', '__proto__', 'hasOwnProperty']) {
+      const expected = word === 'hasOwnProperty' ? [] : ['proto'];
+      assert.deepEqual((await index.search(word)).map(hit => hit.sessionId), expected, word);
+    }
+    // Searching again reads the index back from disk
+    assert.deepEqual((await new SearchIndex(historyDir).search('constructor')).map(hit => hit.sessionId), ['proto']);
+    assert.equal(({} as any).proto, undefined);
+    assert.equal(Object.prototype.hasOwnProperty.call(Object.prototype, 'proto'), false);
+  });
+
+  it('counts only non-empty matches of a regular expression', async () => {
+    await saveSession('plain', [{ role: 'user', content: 'good morning' }]);
+    await saveSession('match', [{ role: 'user', content: 'one' }, { role: 'assistant', content: 'say aaah' }]);
+    const index = new SearchIndex(historyDir);
+
+    for (const query of ['a+h', 'a*h', 'x?a{2,}']) {
+      const results = await index.search(query, { regex: true });
+      assert.deepEqual(results.map(hit => hit.sessionId), ['match'], query);
+      assert.deepEqual(results[0].hits.map(hit => hit.messageIndex), [1], query);
+    }
+    assert.deepEqual(await index.search('a*', { regex: true }).then(results => results.map(hit => hit.sessionId)), ['match']);
+    assert.deepEqual(await index.search('x?', { regex: true }), []);
+  });
+
+  it('indexes a session whose id is an Object.prototype member', async () => {
+    await saveSession('constructor', [{ role: 'user', content: 'hello world' }]);
+    const index = new SearchIndex(historyDir);
+
+    assert.deepEqual((await index.search('hello')).map(hit => hit.sessionId), ['constructor']);
+
+    await fs.rm(path.join(historyDir, 'constructor.json'));
+    assert.deepEqual(await index.search('hello'), []);
+  });
+});
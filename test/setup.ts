@@ -0,0 +1,10 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep the config, history and search index of test runs out of the real home
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'cere-cli-test-'));
+process.env.HOME = home;
+process.env.USERPROFILE = home;
+process.env.XDG_CONFIG_HOME = path.join(home, '.config');
+process.on('exit', () => fs.rmSync(home, { recursive: true, force: true }));
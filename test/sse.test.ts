@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSEDecoder, SSEEvent } from '../src/sse.js';
+import { readFixture, splitBytes } from './helpers.js';
+
+function decode(chunks: Array<Buffer | string>): SSEEvent[] {
+  const decoder = new SSEDecoder();
+  const events = chunks.flatMap(chunk => decoder.push(chunk));
+  return [...events, ...decoder.flush()];
+}
+
+describe('SSEDecoder', () => {
+  it('decodes a recorded stream with CRLF line endings and keep-alive comments', () => {
+    const events = decode([readFixture('content.sse')]);
+
+    assert.equal(events.length, 7);
+    assert.ok(events.every(event => event.event === 'message'));
+    assert.equal(JSON.parse(events[2].data).choices[0].delta.content, 'wörld 👋 — 日本');
+    assert.equal(events[5].data, '[DONE]');
+  });
+
+  it('gives the same events whatever the chunk boundaries', () => {
+    const fixture = readFixture('content.sse');
+    const expected = decode([fixture]);
+
+    // Single bytes split every CRLF pair and every multi-byte character
+    for (const size of [1, 2, 3, 5, 7, 64]) {
+      assert.deepEqual(decode(splitBytes(fixture, size)), expected, `chunks of ${size} bytes`);
+    }
+  });
+
+  it('keeps a UTF-8 character split across chunks intact', () => {
+    const bytes = Buffer.from('data: 👋\n\n');
+    const events = decode([bytes.subarray(0, 8), bytes.subarray(8)]);
+
+    assert.deepEqual(events, [{ event: 'message', data: '👋' }]);
+  });
+
+  it('handles LF, CR and CRLF line endings', () => {
+    for (const eol of ['\n', '\r', '\r\n']) {
+      const events = decode([`data: one${eol}${eol}data: two${eol}${eol}`]);
+      assert.deepEqual(events.map(event => event.data), ['one', 'two'], JSON.stringify(eol));
+    }
+  });
+
+  it('treats a CR at the end of a chunk as a possible CRLF', () => {
+    const events = decode(['data: one\r', '\n\r', '\ndata: two\r\n\r\n']);
+
+    assert.deepEqual(events.map(event => event.data), ['one', 'two']);
+  });
+
+  it('joins multi-line data fields with newlines', () => {
+    const events = decode(['data: first\ndata:second\ndata\ndata:  indented\n\n']);
+
+    assert.deepEqual(events, [{ event: 'message', data: 'first\nsecond\n\n indented' }]);
+  });
+
+  it('ignores comment lines and events without data', () => {
+    const events = decode([': ping\n\n:\n\nevent: noop\n\nid: 1\ndata: kept\n\n']);
+
+    assert.deepEqual(events, [{ event: 'message', data: 'kept', id: '1' }]);
+  });
+
+  it('reads the event, id and retry fields', () => {
+    const events = decode(['event: error\nid: 42\nretry: 3000\nretry: soon\ndata: {}\n\ndata: next\n\n']);
+
+    assert.deepEqual(events, [
+      { event: 'error', data: '{}', id: '42', retry: 3000 },
+      { event: 'message', data: 'next', id: '42', retry: 3000 }
+    ]);
+  });
+
+  it('dispatches an event left without a trailing blank line at the end', () => {
+    const events = decode(['data: [DONE]']);
+
+    assert.deepEqual(events, [{ event: 'message', data: '[DONE]' }]);
+  });
+});
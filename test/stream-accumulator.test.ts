@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import { CerebrasAPI, ChatCompletionChunk, ChatCompletionResponse } from '../src/api.js';
+import { APIError } from '../src/errors.js';
+import { StreamAccumulator } from '../src/stream-accumulator.js';
+import { readFixture, splitBytes } from './helpers.js';
+
+function chunk(delta: ChatCompletionChunk['choices'][0]['delta'], finishReason: string | null = null): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1730000000,
+    model: 'llama3.1-8b',
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+  };
+}
+
+/**
+ * Feed a recorded stream through the client's stream reader, as if it
+ * arrived from the server in the given chunks.
+ */
+async function readStream(chunks: Buffer[]): Promise<{ response: ChatCompletionResponse; deltas: string[] }> {
+  const api = new CerebrasAPI({ apiKey: 'test-key' });
+  const deltas: string[] = [];
+  const response = await api['readStream'](Readable.from(chunks), (delta: string) => deltas.push(delta));
+  return { response, deltas };
+}
+
+describe('StreamAccumulator', () => {
+  it('concatenates content deltas and returns each one', () => {
+    const accumulator = new StreamAccumulator();
+
+    assert.equal(accumulator.push(chunk({ role: 'assistant', content: '' })), '');
+    assert.equal(accumulator.push(chunk({ content: 'Hello' })), 'Hello');
+    assert.equal(accumulator.push(chunk({ content: ', world' })), ', world');
+    accumulator.push(chunk({}, 'stop'));
+
+    const response = accumulator.toResponse();
+    assert.equal(response.id, 'chatcmpl-1');
+    assert.equal(response.model, 'llama3.1-8b');
+    assert.deepEqual(response.choices[0].message, { role: 'assistant', content: 'Hello, world' });
+    assert.equal(response.choices[0].finish_reason, 'stop');
+    assert.equal(response.usage, undefined);
+  });
+
+  it('merges tool call fragments by index', () => {
+    const accumulator = new StreamAccumulator();
+
+    accumulator.push(chunk({ tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'read_', arguments: '' } }] }));
+    accumulator.push(chunk({ tool_calls: [{ index: 0, function: { name: 'file', arguments: '{"pa' } }] }));
+    accumulator.push(chunk({ tool_calls: [{ index: 2, id: 'call_b', function: { name: 'list_directory', arguments: '{}' } }] }));
+    accumulator.push(chunk({ tool_calls: [{ index: 0, function: { arguments: 'th":"a"}' } }] }));
+
+    const response = accumulator.toResponse();
+    assert.deepEqual(response.choices[0].message.tool_calls, [
+      { id: 'call_a', type: 'function', function: { name: 'read_file', arguments: '{"path":"a"}' } },
+      { id: 'call_b', type: 'function', function: { name: 'list_directory', arguments: '{}' } }
+    ]);
+    // No finish reason was streamed
+    assert.equal(response.choices[0].finish_reason, 'tool_calls');
+  });
+
+  it('keeps the usage of the final chunk, which has no choices', () => {
+    const accumulator = new StreamAccumulator();
+
+    accumulator.push(chunk({ content: 'Hi' }, 'stop'));
+    accumulator.push({ ...chunk({}), choices: [], usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 } });
+
+    assert.deepEqual(accumulator.toResponse().usage, { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 });
+  });
+});
+
+describe('CerebrasAPI stream reading', () => {
+  it('rebuilds a recorded response and stops at [DONE]', async () => {
+    const { response, deltas } = await readStream([readFixture('content.sse')]);
+
+    assert.deepEqual(deltas, ['Héllo, ', 'wörld 👋 — 日本']);
+    assert.equal(response.choices[0].message.content, 'Héllo, wörld 👋 — 日本');
+    assert.equal(response.choices[0].finish_reason, 'stop');
+    assert.deepEqual(response.usage, { prompt_tokens: 12, completion_tokens: 7, total_tokens: 19 });
+  });
+
+  it('rebuilds the same response from a stream split at every byte', async () => {
+    const fixture = readFixture('content.sse');
+    const whole = await readStream([fixture]);
+    const split = await readStream(splitBytes(fixture, 1));
+
+    assert.deepEqual(split.response, whole.response);
+    assert.equal(split.deltas.join(''), whole.deltas.join(''));
+  });
+
+  it('assembles tool calls whose arguments are split across chunks', async () => {
+    for (const size of [1, 16, 1024]) {
+      const { response, deltas } = await readStream(splitBytes(readFixture('tool-calls.sse'), size));
+
+      assert.deepEqual(deltas, []);
+      assert.equal(response.choices[0].finish_reason, 'tool_calls');
+      assert.deepEqual(response.choices[0].message.tool_calls, [
+        { id: 'call_a', type: 'function', function: { name: 'read_file', arguments: '{"path": "src/é.ts"}' } },
+        { id: 'call_b', type: 'function', function: { name: 'list_directory', arguments: '{}' } }
+      ]);
+    }
+  });
+
+  it('fails with the message of an error event sent mid-stream', async () => {
+    const deltas: string[] = [];
+    const api = new CerebrasAPI({ apiKey: 'test-key' });
+
+    await assert.rejects(
+      api['readStream'](Readable.from(splitBytes(readFixture('error.sse'), 7)), (delta: string) => deltas.push(delta)),
+      (error: unknown) => error instanceof APIError && error.message === 'Model overloaded'
+    );
+    assert.deepEqual(deltas, ['Partial']);
+  });
+
+  it('fails on an error event whose data is not JSON', async () => {
+    await assert.rejects(
+      readStream([Buffer.from('data: {"choices":[]}\n\nevent: error\ndata: upstream timeout\n\n')]),
+      (error: unknown) => error instanceof APIError && error.message === 'upstream timeout'
+    );
+  });
+});
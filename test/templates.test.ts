@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigError } from '../src/errors.js';
+import { askForVariables, getTemplateVariables, parseVariables, renderTemplate } from '../src/templates.js';
+import { fillTemplate } from '../src/utils.js';
+
+describe('template variables', () => {
+  it('leaves placeholders named after Object.prototype members unfilled', () => {
+    assert.equal(fillTemplate('{{constructor}} {{toString}} {{ name }}', { name: 'x' }), '{{constructor}} {{toString}} x');
+    assert.equal(fillTemplate('{{constructor}}', { constructor: 'built' } as Record<string, string>), 'built');
+  });
+
+  it('does not treat dotted names as placeholders', () => {
+    const template = { name: 'dotted', prompt: 'Hi {{user.name}} and {{first-name}}' };
+
+    assert.deepEqual(getTemplateVariables(template), ['first-name']);
+    assert.equal(renderTemplate(template, { 'first-name': 'Ada' }).prompt, 'Hi {{user.name}} and Ada');
+  });
+
+  it('keeps "__proto__" as an ordinary variable', () => {
+    const values = parseVariables(['__proto__=polluted', 'lang=ts']);
+
+    assert.equal(Object.hasOwn(values, '__proto__'), true);
+    assert.equal(fillTemplate('{{__proto__}} {{lang}}', values), 'polluted ts');
+    assert.equal(({} as Record<string, unknown>).polluted, undefined);
+  });
+
+  it('reports variables named after Object.prototype members as missing', async () => {
+    const template = { name: 'proto', prompt: '{{constructor}} {{toString}} {{lang}}' };
+
+    await assert.rejects(
+      askForVariables(template, { lang: 'ts' }),
+      (error: unknown) => error instanceof ConfigError && error.message.includes('constructor, toString')
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Workspace, WorkspaceError } from '../src/workspace.js';
+
+describe('Workspace.searchFiles', () => {
+  it('rejects globs that reach outside the search directory', async () => {
+    const root = await fs.mkdtemp(path.join(os.homedir(), 'workspace-'));
+    await fs.mkdir(path.join(root, 'src'));
+    await fs.writeFile(path.join(root, 'src', 'a.ts'), 'const secret = 1;\n');
+    await fs.writeFile(path.join(os.homedir(), 'outside.ts'), 'const secret = 2;\n');
+    const workspace = new Workspace(root);
+
+    for (const glob of ['../*.ts', 'src/../../*.ts', '..\\*.ts', path.join(os.homedir(), '*.ts')]) {
+      await assert.rejects(workspace.searchFiles('secret', { glob }), WorkspaceError, glob);
+    }
+    await assert.rejects(workspace.searchFiles('secret', { path: 'src', glob: '../../*.ts' }), WorkspaceError);
+    assert.equal(await workspace.searchFiles('secret', { glob: 'src/*.ts' }), 'src/a.ts:1: const secret = 1;');
+  });
+});
+
+describe('Workspace.prepareWrite', () => {
+  it('refuses writes inside .git in any letter case', async () => {
+    const workspace = new Workspace(await fs.mkdtemp(path.join(os.homedir(), 'workspace-')));
+
+    for (const target of ['.git/config', '.GIT/hooks/pre-commit', 'sub/.Git/HEAD']) {
+      await assert.rejects(workspace.prepareWrite(target, 'x'), WorkspaceError, target);
+    }
+    assert.equal((await workspace.prepareWrite('.github/workflows/ci.yml', 'x')).relativePath, path.join('.github', 'workflows', 'ci.yml'));
+  });
+});